@@ -0,0 +1,13 @@
+import { commissionHandler } from '../server/commission';
+import { createRateLimiter } from '../server/http';
+import { transportFromEnv } from '../server/mail';
+import { resolveSiteUrl } from '../server/site';
+
+/** Vercel serverless function behind the commission wizard; configured like `api/contact.ts`. */
+export default commissionHandler({
+  transport: () => transportFromEnv(),
+  rateLimiter: createRateLimiter({ max: 3, windowMs: 60 * 60 * 1000 }),
+  to: process.env.CONTACT_TO,
+  from: process.env.MAIL_FROM,
+  siteUrl: resolveSiteUrl(),
+});
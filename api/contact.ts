@@ -0,0 +1,16 @@
+import { contactHandler } from '../server/contact';
+import { createRateLimiter } from '../server/http';
+import { transportFromEnv } from '../server/mail';
+
+/**
+ * Vercel serverless function behind the contact form. Mail goes through the
+ * transport picked by `MAIL_TRANSPORT`/`RESEND_API_KEY`; `CONTACT_TO` and
+ * `MAIL_FROM` override the recipient and sender.
+ */
+export default contactHandler({
+  transport: () => transportFromEnv(),
+  // Five inquiries per client and hour, per function instance
+  rateLimiter: createRateLimiter({ max: 5, windowMs: 60 * 60 * 1000 }),
+  to: process.env.CONTACT_TO,
+  from: process.env.MAIL_FROM,
+});
@@ -0,0 +1,295 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { Plugin, ResolvedConfig } from 'vite';
+import { WORK_META_KEYS, validateWorkMeta, type WorkMeta, type WorkMetaIssue } from '../src/content/workMeta';
+import { ADMIN_API, type AdminWork } from '../src/admin/api';
+import { validateWorkFolder } from './validateWorks';
+import { findMetaFile, listWorkFolders, readWorkMeta } from './workFolders';
+
+// Same extensions that buildWorks() globs for album images; the glob is case-sensitive, so this is too
+const IMAGE_FILE = /\.(jpg|jpeg|png)$/;
+// Uploads may be in any case: safeFileName() lowercases the extension before saving
+const UPLOAD_FILE = /\.(jpg|jpeg|png)$/i;
+const SLUG = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+// Top-level JSON files with paragraphs per language, editable from /admin
+const TEXT_FILES = { artist: 'artist.json', taller: 'taller.json' } as const;
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+type ContentAdminOptions = {
+  /** Directory holding one folder per work, relative to the Vite root. */
+  pagesDir?: string;
+};
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly issues?: WorkMetaIssue[]
+  ) {
+    super(message);
+  }
+}
+
+function readBody(req: IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+async function readJson<T>(req: IncomingMessage): Promise<T> {
+  try {
+    return JSON.parse((await readBody(req)).toString('utf8')) as T;
+  } catch {
+    throw new HttpError(400, 'request body is not valid JSON');
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Whether a request comes from a page served by this dev server: the Host is
+ * the server's own (which stops DNS rebinding) and the Origin, required for
+ * anything but reads, matches it (which stops other open pages posting here).
+ */
+function isOwnOrigin(req: IncomingMessage, serverHost: string | boolean | undefined): boolean {
+  const host = req.headers.host;
+  if (!host) return false;
+  const hostname = new URL(`http://${host}`).hostname;
+  if (!LOOPBACK_HOSTS.includes(hostname) && serverHost !== true && hostname !== serverHost) return false;
+  const origin = req.headers.origin;
+  if (!origin) return req.method === 'GET' || req.method === 'HEAD';
+  try {
+    return new URL(origin).host === host;
+  } catch {
+    return false;
+  }
+}
+
+// The work JSON files are indented with four spaces; keys follow WORK_META_KEYS
+function writeMeta(file: string, meta: Partial<WorkMeta>) {
+  const ordered = Object.fromEntries(
+    WORK_META_KEYS.filter((key) => meta[key] !== undefined && meta[key] !== '').map((key) => [key, meta[key]])
+  );
+  fs.writeFileSync(file, JSON.stringify(ordered, null, 4) + '\n');
+}
+
+// "Foto Festa Major 2.JPG" -> "foto-festa-major-2.jpg", made unique within `dir`
+function safeFileName(dir: string, name: string): string {
+  const ext = path.extname(name).toLowerCase();
+  const base =
+    path
+      .basename(name, path.extname(name))
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '') || 'image';
+  let candidate = `${base}${ext}`;
+  for (let n = 2; fs.existsSync(path.join(dir, candidate)); n++) candidate = `${base}-${n}${ext}`;
+  return candidate;
+}
+
+/**
+ * Dev-server API behind the /admin pages: lists and edits work folders under
+ * `pages/` (metadata, uploads, album order, main/list images) and the
+ * artist.json/taller.json paragraphs. Writes straight to the repository
+ * files, so the usual HMR and content lint pick the changes up. Never part of
+ * a build.
+ */
+export default function contentAdmin({ pagesDir = 'pages' }: ContentAdminOptions = {}): Plugin {
+  let config: ResolvedConfig;
+  let absPagesDir = '';
+
+  const workDir = (slug: string) => {
+    if (!SLUG.test(slug) || !fs.existsSync(path.join(absPagesDir, slug))) {
+      throw new HttpError(404, `no work folder "${slug}"`);
+    }
+    return path.join(absPagesDir, slug);
+  };
+
+  const metaFile = (slug: string) => findMetaFile(absPagesDir, slug) ?? path.join(absPagesDir, slug, `${slug}.json`);
+
+  const loadWork = (slug: string): AdminWork => {
+    const dir = workDir(slug);
+    const meta = (readWorkMeta(absPagesDir, slug) ?? {}) as Partial<WorkMeta>;
+    const order = (meta.album ?? []).map((f) => f.toLowerCase());
+    const rank = (f: string) => (order.includes(f.toLowerCase()) ? order.indexOf(f.toLowerCase()) : Infinity);
+    // Same order as buildWorks(): main first, then the album field, then by name
+    const images = fs
+      .readdirSync(dir)
+      .filter((f) => IMAGE_FILE.test(f) && !f.startsWith('.'))
+      .sort((a, b) => {
+        const aMain = a.toLowerCase().startsWith('main.');
+        const bMain = b.toLowerCase().startsWith('main.');
+        if (aMain !== bMain) return aMain ? -1 : 1;
+        if (rank(a) !== rank(b)) return rank(a) < rank(b) ? -1 : 1;
+        return a.toLowerCase().localeCompare(b.toLowerCase());
+      });
+    return { slug, meta, images, issues: validateWorkFolder(dir, slug) };
+  };
+
+  // The metadata to edit; a file that is there but unreadable is never overwritten, so none of it is lost
+  const editableMeta = (slug: string): Partial<WorkMeta> => {
+    if (!findMetaFile(absPagesDir, slug)) return {};
+    const meta = readWorkMeta(absPagesDir, slug);
+    if (!meta || typeof meta !== 'object' || Array.isArray(meta)) {
+      throw new HttpError(422, `${path.basename(metaFile(slug))} is not a valid JSON object, fix it by hand first`);
+    }
+    return meta as Partial<WorkMeta>;
+  };
+
+  const updateMeta = (slug: string, update: (meta: Partial<WorkMeta>) => Partial<WorkMeta>) => {
+    writeMeta(metaFile(slug), update(editableMeta(slug)));
+  };
+
+  // Renames `file` to main.<ext> or main2.<ext>; the image holding the role so far keeps a regular name
+  const assignRole = (slug: string, file: string, role: 'main' | 'main2') => {
+    const dir = workDir(slug);
+    const files = fs.readdirSync(dir);
+    if (!files.includes(file) || !IMAGE_FILE.test(file)) throw new HttpError(404, `no image "${file}" in ${slug}`);
+    if (file.toLowerCase().startsWith(`${role}.`)) return;
+    // Checked before renaming, so the album and process entries can still follow the files
+    editableMeta(slug);
+    const renames = new Map<string, string>();
+    const current = files.find((f) => IMAGE_FILE.test(f) && f.toLowerCase().startsWith(`${role}.`));
+    if (current) {
+      const freed = safeFileName(dir, `${slug}${path.extname(current)}`);
+      fs.renameSync(path.join(dir, current), path.join(dir, freed));
+      renames.set(current, freed);
+    }
+    const target = `${role}${path.extname(file).toLowerCase()}`;
+    fs.renameSync(path.join(dir, file), path.join(dir, target));
+    renames.set(file, target);
+    const rename = (f: string) => renames.get(f) ?? f;
+    updateMeta(slug, (meta) => ({
+      ...meta,
+      ...(meta.album ? { album: meta.album.map(rename) } : {}),
+      ...(meta.process
+        ? {
+            process: meta.process.map((stage) => ({
+              ...stage,
+              images: stage.images.map((image) =>
+                typeof image === 'string' ? rename(image) : { ...image, file: rename(image.file) }
+              ),
+            })),
+          }
+        : {}),
+    }));
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const parts = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+    const method = req.method ?? 'GET';
+
+    // GET /works, POST /works
+    if (parts[0] === 'works' && parts.length === 1) {
+      if (method === 'GET') return sendJson(res, 200, listWorkFolders(absPagesDir).map(loadWork));
+      if (method === 'POST') {
+        const { slug, nom } = await readJson<{ slug?: string; nom?: string }>(req);
+        if (!slug || !SLUG.test(slug)) throw new HttpError(400, 'the slug must be lowercase letters, digits and dashes');
+        const dir = path.join(absPagesDir, slug);
+        if (fs.existsSync(dir)) throw new HttpError(409, `"${slug}" already exists`);
+        fs.mkdirSync(dir, { recursive: true });
+        writeMeta(path.join(dir, `${slug}.json`), { nom: nom?.trim() || slug });
+        return sendJson(res, 201, loadWork(slug));
+      }
+    }
+
+    // GET/PUT /works/:slug
+    if (parts[0] === 'works' && parts.length === 2) {
+      const slug = parts[1];
+      if (method === 'GET') return sendJson(res, 200, loadWork(slug));
+      if (method === 'PUT') {
+        workDir(slug);
+        editableMeta(slug);
+        const { meta } = await readJson<{ meta: Partial<WorkMeta> }>(req);
+        const issues = validateWorkMeta(meta);
+        if (issues.some((i) => i.level === 'error')) throw new HttpError(422, 'the metadata has errors', issues);
+        writeMeta(metaFile(slug), meta);
+        return sendJson(res, 200, loadWork(slug));
+      }
+    }
+
+    // POST /works/:slug/images?name=<file name>, with the image as the raw body
+    if (parts[0] === 'works' && parts[2] === 'images' && parts.length === 3 && method === 'POST') {
+      const dir = workDir(parts[1]);
+      const name = url.searchParams.get('name') ?? '';
+      if (!UPLOAD_FILE.test(name)) throw new HttpError(400, 'only .jpg, .jpeg and .png images are supported');
+      const body = await readBody(req);
+      if (body.length === 0) throw new HttpError(400, 'empty upload');
+      fs.writeFileSync(path.join(dir, safeFileName(dir, name)), body);
+      return sendJson(res, 201, loadWork(parts[1]));
+    }
+
+    // PUT /works/:slug/album { order: [file names] }
+    if (parts[0] === 'works' && parts[2] === 'album' && parts.length === 3 && method === 'PUT') {
+      const slug = parts[1];
+      const { images } = loadWork(slug);
+      const { order } = await readJson<{ order: string[] }>(req);
+      if (!Array.isArray(order) || order.some((f) => !images.includes(f))) {
+        throw new HttpError(400, '"order" must only list images of the work');
+      }
+      updateMeta(slug, (meta) => ({ ...meta, album: order }));
+      return sendJson(res, 200, loadWork(slug));
+    }
+
+    // PUT /works/:slug/roles { main?: file, main2?: file }
+    if (parts[0] === 'works' && parts[2] === 'roles' && parts.length === 3 && method === 'PUT') {
+      const slug = parts[1];
+      const { main, main2 } = await readJson<{ main?: string; main2?: string }>(req);
+      if (main) assignRole(slug, main, 'main');
+      if (main2) assignRole(slug, main2, 'main2');
+      return sendJson(res, 200, loadWork(slug));
+    }
+
+    // GET/PUT /texts/artist, /texts/taller: { catala: [...], english: [...], castellano?: [...] }
+    if (parts[0] === 'texts' && parts.length === 2 && Object.prototype.hasOwnProperty.call(TEXT_FILES, parts[1])) {
+      const file = path.resolve(config.root, TEXT_FILES[parts[1] as keyof typeof TEXT_FILES]);
+      if (method === 'GET') return sendJson(res, 200, JSON.parse(fs.readFileSync(file, 'utf8')));
+      if (method === 'PUT') {
+        const texts = await readJson<Record<string, unknown>>(req);
+        const valid =
+          texts &&
+          typeof texts === 'object' &&
+          Object.values(texts).every((v) => Array.isArray(v) && v.every((p) => typeof p === 'string'));
+        if (!valid) throw new HttpError(400, 'expected a list of paragraphs per language');
+        fs.writeFileSync(file, JSON.stringify(texts, null, 2) + '\n');
+        return sendJson(res, 200, texts);
+      }
+    }
+
+    throw new HttpError(404, `no route for ${method} ${url.pathname}`);
+  };
+
+  return {
+    name: 'content-admin',
+    apply: 'serve',
+
+    configResolved(resolved) {
+      config = resolved;
+      absPagesDir = path.resolve(config.root, pagesDir);
+    },
+
+    configureServer(server) {
+      server.middlewares.use(ADMIN_API, (req, res) => {
+        if (!isOwnOrigin(req, config.server.host)) {
+          return sendJson(res, 403, { error: 'the admin API only answers pages of this dev server' });
+        }
+        handle(req, res).catch((e: unknown) => {
+          if (e instanceof HttpError) return sendJson(res, e.status, { error: e.message, issues: e.issues });
+          config.logger.error(`[content-admin] ${(e as Error).stack ?? e}`);
+          sendJson(res, 500, { error: (e as Error).message });
+        });
+      });
+    },
+  };
+}
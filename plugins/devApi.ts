@@ -0,0 +1,51 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import type { Plugin } from 'vite';
+import { commissionHandler } from '../server/commission';
+import { contactHandler } from '../server/contact';
+import { createRateLimiter } from '../server/http';
+import { consoleTransport, fileTransport, type MailTransport } from '../server/mail';
+import type { AgendaEvent } from '../src/content/agenda';
+import { calendarFeedPath, icsCalendar } from '../src/content/ics';
+import type { WorkMeta } from '../src/content/workMeta';
+import { LANGUAGES } from '../src/i18n';
+import { readWorkMeta } from './workFolders';
+
+type DevApiOptions = {
+  /** Defaults to the console, or to `.mail/` files with `MAIL_TRANSPORT=file`. Never sends real mail. */
+  transport?: MailTransport;
+};
+
+/**
+ * Serves the `api/` functions (`/api/contact`, `/api/commission`) from the
+ * dev server with the same handlers as on Vercel, so the forms work under `vite`,
+ * plus the agenda feeds (`/ca/agenda.ics`…) that the build writes as files.
+ */
+export default function devApi({ transport }: DevApiOptions = {}): Plugin {
+  return {
+    name: 'dev-api',
+    apply: 'serve',
+
+    configureServer(server) {
+      const mail =
+        transport ??
+        (process.env.MAIL_TRANSPORT === 'file' ? fileTransport(process.env.MAIL_DIR ?? '.mail') : consoleTransport());
+      const rateLimiter = () => createRateLimiter({ max: 5, windowMs: 60 * 1000 });
+      server.middlewares.use('/api/contact', contactHandler({ transport: mail, rateLimiter: rateLimiter() }));
+      server.middlewares.use('/api/commission', commissionHandler({ transport: mail, rateLimiter: rateLimiter() }));
+
+      // Read on every request, so edits to agenda.json show up without a restart
+      server.middlewares.use((req, res, next) => {
+        const language = LANGUAGES.find((l) => req.url?.split('?')[0] === calendarFeedPath(l));
+        if (!language) return next();
+        const root = server.config.root;
+        const { events } = JSON.parse(fs.readFileSync(path.join(root, 'agenda.json'), 'utf8')) as { events: AgendaEvent[] };
+        const pagesDir = path.join(root, 'pages');
+        const workName = (slug: string) =>
+          (fs.existsSync(path.join(pagesDir, slug)) && (readWorkMeta(pagesDir, slug) as Partial<WorkMeta> | null)?.nom) || slug;
+        res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+        res.end(icsCalendar(events, { language, origin: `http://${req.headers.host}`, workName }));
+      });
+    },
+  };
+}
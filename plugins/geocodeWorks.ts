@@ -0,0 +1,149 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import type { Plugin, ResolvedConfig } from 'vite';
+import type { AgendaEvent } from '../src/content/agenda';
+import type { WorkLocation, WorkMeta } from '../src/content/workMeta';
+import { findMetaFile, listWorkFolders, readWorkMeta } from './workFolders';
+
+const VIRTUAL_ID = 'virtual:work-locations';
+const RESOLVED_VIRTUAL_ID = '\0' + VIRTUAL_ID;
+const EVENTS_VIRTUAL_ID = 'virtual:event-locations';
+const RESOLVED_EVENTS_VIRTUAL_ID = '\0' + EVENTS_VIRTUAL_ID;
+
+type GazetteerEntry = { name: string; lat: number; lng: number; aliases?: string[] };
+
+type GeocodeWorksOptions = {
+  /** Directory holding one folder per work, relative to the Vite root. */
+  pagesDir?: string;
+  /** JSON list of `{ name, lat, lng, aliases? }` towns, relative to the Vite root. */
+  gazetteer?: string;
+  /** Events file whose entries are placed the same way, relative to the Vite root. */
+  agenda?: string;
+};
+
+// "Sant Hipòlit de Voltrega" and "sant hipolit de voltregà" are the same town
+function normalizePlace(s: string): string {
+  return s
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[’`´]/g, "'")
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+}
+
+function buildIndex(entries: GazetteerEntry[]): Map<string, WorkLocation> {
+  const index = new Map<string, WorkLocation>();
+  entries.forEach((e) => {
+    [e.name, ...(e.aliases ?? [])].forEach((name) => index.set(normalizePlace(name), { lat: e.lat, lng: e.lng }));
+  });
+  return index;
+}
+
+/**
+ * Position of a work: explicit `lat`/`lng` first, then the gazetteer entry
+ * matching `city` or any comma-separated part of `address`.
+ */
+export function locateWork(meta: Partial<WorkMeta>, index: Map<string, WorkLocation>): WorkLocation | null {
+  if (typeof meta.lat === 'number' && typeof meta.lng === 'number') return { lat: meta.lat, lng: meta.lng };
+  const candidates = [meta.city, ...(meta.address ?? '').split(',')].filter((s): s is string => !!s && !!s.trim());
+  for (const c of candidates) {
+    const hit = index.get(normalizePlace(c));
+    if (hit) return hit;
+  }
+  return null;
+}
+
+/**
+ * Resolves every work's map position at build time and serves them as
+ * `virtual:work-locations` (slug → `{ lat, lng }`), so the map needs no
+ * network geocoding. Works that can't be placed are reported and left out.
+ * Agenda events get the same treatment as `virtual:event-locations` (id → position).
+ */
+export default function geocodeWorks({
+  pagesDir = 'pages',
+  gazetteer = 'gazetteer.json',
+  agenda = 'agenda.json',
+}: GeocodeWorksOptions = {}): Plugin {
+  let config: ResolvedConfig;
+  let absPagesDir = '';
+  let gazetteerFile = '';
+  let agendaFile = '';
+
+  const loadIndex = () => buildIndex(JSON.parse(fs.readFileSync(gazetteerFile, 'utf8')) as GazetteerEntry[]);
+
+  const resolveAll = () => {
+    const index = loadIndex();
+    const locations: Record<string, WorkLocation> = {};
+    const unresolved: string[] = [];
+    listWorkFolders(absPagesDir).forEach((folder) => {
+      const meta = readWorkMeta(absPagesDir, folder) as Partial<WorkMeta> | null;
+      if (!meta) return;
+      const location = locateWork(meta, index);
+      if (location) locations[folder] = location;
+      else unresolved.push(`  ${pagesDir}/${folder}: "${meta.address || meta.city || '(no address or city)'}"`);
+    });
+    return { locations, unresolved };
+  };
+
+  const resolveEvents = () => {
+    if (!fs.existsSync(agendaFile)) return { locations: {}, unresolved: [] };
+    const index = loadIndex();
+    const { events = [] } = JSON.parse(fs.readFileSync(agendaFile, 'utf8')) as { events?: AgendaEvent[] };
+    const locations: Record<string, WorkLocation> = {};
+    const unresolved: string[] = [];
+    events.forEach((event) => {
+      const location = locateWork({ city: event.city, lat: event.lat, lng: event.lng }, index);
+      if (location) locations[event.id] = location;
+      else unresolved.push(`  ${agenda} "${event.id}": "${event.city}"`);
+    });
+    return { locations, unresolved };
+  };
+
+  return {
+    name: 'geocode-works',
+
+    configResolved(resolved) {
+      config = resolved;
+      absPagesDir = path.resolve(config.root, pagesDir);
+      gazetteerFile = path.resolve(config.root, gazetteer);
+      agendaFile = path.resolve(config.root, agenda);
+    },
+
+    resolveId(id) {
+      if (id === VIRTUAL_ID) return RESOLVED_VIRTUAL_ID;
+      if (id === EVENTS_VIRTUAL_ID) return RESOLVED_EVENTS_VIRTUAL_ID;
+      return null;
+    },
+
+    load(id) {
+      if (id === RESOLVED_EVENTS_VIRTUAL_ID) {
+        this.addWatchFile(gazetteerFile);
+        this.addWatchFile(agendaFile);
+        const { locations, unresolved } = resolveEvents();
+        if (unresolved.length > 0) {
+          config.logger.warn(
+            `[geocode-works] ${unresolved.length} events could not be placed on the map. ` +
+              `Add the town to ${gazetteer} or set "lat"/"lng" on the event:\n${unresolved.join('\n')}`
+          );
+        }
+        return `export default ${JSON.stringify(locations)};`;
+      }
+      if (id !== RESOLVED_VIRTUAL_ID) return null;
+      this.addWatchFile(gazetteerFile);
+      listWorkFolders(absPagesDir).forEach((folder) => {
+        const file = findMetaFile(absPagesDir, folder);
+        if (file) this.addWatchFile(file);
+      });
+
+      const { locations, unresolved } = resolveAll();
+      if (unresolved.length > 0) {
+        config.logger.warn(
+          `[geocode-works] ${unresolved.length} works could not be placed on the map. ` +
+            `Add the town to ${gazetteer} or set "lat"/"lng" in the work JSON:\n${unresolved.join('\n')}`
+        );
+      }
+      return `export default ${JSON.stringify(locations)};`;
+    },
+  };
+}
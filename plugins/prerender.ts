@@ -0,0 +1,88 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type { Plugin, ResolvedConfig } from 'vite';
+import { resolveSiteUrl } from '../server/site';
+import { robotsTxt, sitemapXml, type SitemapEntry } from './sitemap';
+
+type PrerenderOptions = {
+  /** Output directory of the client build, whose index.html is the page template. Relative to the Vite root. */
+  clientDir?: string;
+  /**
+   * Public origin used for canonical links and share image URLs. Defaults to
+   * `SITE_URL`, then to Vercel's production domain.
+   */
+  siteUrl?: string;
+};
+
+// What the SSR build of src/entry-server.tsx exports
+type ServerEntry = {
+  prerenderUrls: () => string[];
+  render: (url: string, origin: string) => { html: string; head: string; lang: string };
+  sitemapEntries: () => SitemapEntry[];
+  calendarFeeds: (origin: string) => { path: string; body: string }[];
+};
+
+// "/ca/obra/lleo" -> "<clientDir>/ca/obra/lleo/index.html"
+const outputFile = (clientDir: string, url: string) => path.join(clientDir, ...url.split('/').filter(Boolean), 'index.html');
+
+/**
+ * Runs in the SSR build (`vite build --ssr src/entry-server.tsx`), after the
+ * client build: renders every page the entry lists into the client template,
+ * writes one index.html per URL so the client can hydrate it, adds
+ * sitemap.xml, robots.txt and the agenda's calendar feeds, and removes the
+ * server bundle afterwards.
+ */
+export default function prerender({ clientDir = 'dist', siteUrl }: PrerenderOptions = {}): Plugin {
+  let config: ResolvedConfig;
+
+  return {
+    name: 'prerender',
+    apply: (userConfig, { command }) => command === 'build' && !!userConfig.build?.ssr,
+
+    configResolved(resolved) {
+      config = resolved;
+    },
+
+    async writeBundle(options, bundle) {
+      const entry = Object.values(bundle).find((chunk) => chunk.type === 'chunk' && chunk.isEntry);
+      if (!entry || !options.dir) return;
+      const absClientDir = path.resolve(config.root, clientDir);
+      const templateFile = path.join(absClientDir, 'index.html');
+      const template = await fs.readFile(templateFile, 'utf8').catch(() => {
+        throw new Error(`[prerender] ${templateFile} not found, run the client build first`);
+      });
+
+      const origin = resolveSiteUrl(siteUrl);
+      if (!origin) {
+        config.logger.warn(
+          '[prerender] SITE_URL is not set; canonical and share image URLs will be relative and no sitemap.xml is written'
+        );
+      }
+
+      const server = (await import(pathToFileURL(path.join(options.dir, entry.fileName)).href)) as ServerEntry;
+      const urls = server.prerenderUrls();
+      for (const url of urls) {
+        const { html, head, lang } = server.render(url, origin);
+        // Replacer functions, so a "$" in the rendered content isn't read as a replacement pattern
+        const page = template
+          .replace(/<html lang="[^"]*">/, () => `<html lang="${lang}">`)
+          .replace(/<title>.*?<\/title>\s*<!--app-head-->/s, () => head)
+          .replace('<!--app-html-->', () => html);
+        const file = outputFile(absClientDir, url);
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        await fs.writeFile(file, page);
+      }
+
+      // Sitemaps only accept absolute URLs
+      if (origin) await fs.writeFile(path.join(absClientDir, 'sitemap.xml'), sitemapXml(server.sitemapEntries(), origin));
+      await fs.writeFile(path.join(absClientDir, 'robots.txt'), robotsTxt(origin));
+      for (const feed of server.calendarFeeds(origin)) {
+        await fs.writeFile(path.join(absClientDir, ...feed.path.split('/').filter(Boolean)), feed.body);
+      }
+
+      await fs.rm(options.dir, { recursive: true, force: true });
+      config.logger.info(`[prerender] ${urls.length} pages written to ${clientDir}/`);
+    },
+  };
+}
@@ -0,0 +1,40 @@
+import type { Plugin } from 'vite';
+import { imagetools } from 'vite-imagetools';
+
+/** Widths generated for every `?responsive` image; larger than the original are skipped. */
+export const RESPONSIVE_WIDTHS = [480, 960, 1600];
+
+// Width of the inlined, blurred `?placeholder` image
+const PLACEHOLDER_WIDTH = 24;
+
+/**
+ * Presets on top of vite-imagetools so imports only need a single flag:
+ *
+ * - `photo.jpg?responsive` → `{ sources, img }` with AVIF, WebP and a JPEG/PNG
+ *   fallback at each of RESPONSIVE_WIDTHS (PNG only for images with transparency)
+ * - `photo.jpg?placeholder` → a tiny blurred WebP inlined as a data URI
+ */
+export default function responsiveImages(): Plugin {
+  return imagetools({
+    defaultDirectives: async (url, metadata) => {
+      if (url.searchParams.has('responsive')) {
+        const fallback = (await metadata()).hasAlpha ? 'png' : 'jpg';
+        return new URLSearchParams({
+          w: RESPONSIVE_WIDTHS.join(';'),
+          format: `avif;webp;${fallback}`,
+          as: 'picture',
+        });
+      }
+      if (url.searchParams.has('placeholder')) {
+        return new URLSearchParams({
+          w: String(PLACEHOLDER_WIDTH),
+          blur: '2',
+          format: 'webp',
+          quality: '40',
+          inline: '',
+        });
+      }
+      return new URLSearchParams();
+    },
+  });
+}
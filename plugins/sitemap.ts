@@ -0,0 +1,42 @@
+/** A page of the site: its URL in each language and the images shown on it, as root-relative paths. */
+export type SitemapEntry = {
+  alternates: { hreflang: string; path: string }[];
+  images: string[];
+};
+
+const escapeXml = (s: string) =>
+  s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * sitemap.xml with one `<url>` per page and language, each listing the other
+ * languages as `xhtml:link` alternates and the page's images as `image:image`.
+ */
+export function sitemapXml(entries: SitemapEntry[], origin: string): string {
+  const urls = entries.flatMap(({ alternates, images }) =>
+    alternates.map(({ path }) =>
+      [
+        '  <url>',
+        `    <loc>${escapeXml(origin + path)}</loc>`,
+        ...alternates.map(
+          (alt) => `    <xhtml:link rel="alternate" hreflang="${alt.hreflang}" href="${escapeXml(origin + alt.path)}"/>`
+        ),
+        ...images.map((src) => `    <image:image><image:loc>${escapeXml(origin + src)}</image:loc></image:image>`),
+        '  </url>',
+      ].join('\n')
+    )
+  );
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"',
+    '        xmlns:xhtml="http://www.w3.org/1999/xhtml"',
+    '        xmlns:image="http://www.google.com/schemas/sitemap-image/1.1">',
+    ...urls,
+    '</urlset>',
+    '',
+  ].join('\n');
+}
+
+/** robots.txt allowing everything and pointing at the sitemap when the origin is known. */
+export function robotsTxt(origin: string): string {
+  return ['User-agent: *', 'Allow: /', ...(origin ? ['', `Sitemap: ${origin}/sitemap.xml`] : []), ''].join('\n');
+}
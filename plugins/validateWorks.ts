@@ -0,0 +1,227 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import crypto from 'node:crypto';
+import type { Plugin, ResolvedConfig } from 'vite';
+import { validateAgenda, type AgendaEvent } from '../src/content/agenda';
+import { validateWorkCollections, type Collection } from '../src/content/collections';
+import { validateWorkMeta, type ProcessStage, type WorkMetaIssue } from '../src/content/workMeta';
+import { listWorkFolders } from './workFolders';
+
+// Same extensions that buildWorks() globs for album images and clips
+const IMAGE_FILE = /\.(jpg|jpeg|png)$/;
+const VIDEO_FILE = /\.(mp4|webm)$/;
+const MAIN_IMAGE = /^main\.(jpg|jpeg|png)$/;
+// Finder/Explorer copies such as "PHOTO-2025-01-11-06-26-39 2.jpg"
+const COPY_SUFFIX = /^(.*) \d+(\.[^.]+)$/;
+
+export type FolderReport = { folder: string; issues: WorkMetaIssue[] };
+
+type ValidateWorksOptions = {
+  /** Directory holding one folder per work, relative to the Vite root. */
+  pagesDir?: string;
+  /** Events file whose work slugs and dates are checked too, relative to the Vite root. */
+  agenda?: string;
+  /** Collections file whose ids the works' "collections" must use, relative to the Vite root. */
+  collections?: string;
+  /** Fail `vite build` when any folder has errors. Dev always only warns. */
+  failOnError?: boolean;
+};
+
+function hashFile(file: string): string {
+  return crypto.createHash('sha1').update(fs.readFileSync(file)).digest('hex');
+}
+
+/**
+ * Problems of a single work folder: its metadata file, main image and
+ * duplicate images. Collection ids are only checked when `collectionIds` is given.
+ */
+export function validateWorkFolder(dir: string, folder: string, collectionIds?: string[]): WorkMetaIssue[] {
+  const issues: WorkMetaIssue[] = [];
+  const error = (message: string) => issues.push({ level: 'error', message });
+  const warn = (message: string) => issues.push({ level: 'warning', message });
+  const files = fs.readdirSync(dir).filter((f) => !f.startsWith('.'));
+
+  // Metadata file: exactly one, named after the folder
+  const jsonFiles = files.filter((f) => f.endsWith('.json'));
+  const expectedJson = `${folder}.json`;
+  if (jsonFiles.length === 0) {
+    error(`missing ${expectedJson}`);
+  } else {
+    jsonFiles
+      .filter((f) => f !== expectedJson)
+      .forEach((f) => error(`"${f}" should be named "${expectedJson}"`));
+    const jsonFile = jsonFiles.includes(expectedJson) ? expectedJson : jsonFiles[0];
+    try {
+      const meta = JSON.parse(fs.readFileSync(path.join(dir, jsonFile), 'utf8'));
+      issues.push(...validateWorkMeta(meta));
+      if (collectionIds) validateWorkCollections(meta ?? {}, collectionIds).forEach(warn);
+      if (Array.isArray(meta?.album)) {
+        meta.album
+          .filter((f: unknown) => typeof f === 'string' && !files.includes(f))
+          .forEach((f: string) => warn(`"album" lists "${f}", which is not in the folder`));
+      }
+      if (Array.isArray(meta?.process)) {
+        (meta.process as ProcessStage[])
+          .flatMap((stage) => (Array.isArray(stage?.images) ? stage.images : []))
+          // Malformed entries are already reported by validateWorkMeta()
+          .map((image) => (image && typeof image === 'object' ? image.file : image))
+          .filter((f) => typeof f === 'string' && !files.includes(f))
+          .forEach((f) => warn(`"process" lists "${f}", which is not in the folder`));
+      }
+    } catch (e) {
+      error(`${jsonFile} is not valid JSON (${(e as Error).message})`);
+    }
+  }
+
+  const images = files.filter((f) => IMAGE_FILE.test(f));
+  if (images.length === 0) {
+    error('missing main image (main.jpg, main.jpeg or main.png)');
+  } else if (!images.some((f) => MAIN_IMAGE.test(f))) {
+    // assembleWorks() falls back to the first album photo, which may not be the one meant for the cover
+    warn('missing main image (main.jpg, main.jpeg or main.png), the first album photo is shown instead');
+  }
+
+  // Clips play without a poster frame, but show a black box until they load
+  files
+    .filter((f) => VIDEO_FILE.test(f))
+    .forEach((f) => {
+      const base = f.replace(VIDEO_FILE, '');
+      if (!images.some((i) => i.replace(IMAGE_FILE, '') === base)) {
+        warn(`clip "${f}" has no poster frame (an image named "${base}.jpg")`);
+      }
+    });
+
+  // Duplicate album images: byte-identical files and leftover "name 2.jpg" copies
+  const byHash = new Map<string, string[]>();
+  images.forEach((f) => {
+    const hash = hashFile(path.join(dir, f));
+    byHash.set(hash, [...(byHash.get(hash) || []), f]);
+  });
+  const reported = new Set<string>();
+  byHash.forEach((names) => {
+    if (names.length < 2) return;
+    names.forEach((n) => reported.add(n));
+    warn(`duplicate album images: ${names.map((n) => `"${n}"`).join(', ')} are identical`);
+  });
+  images.forEach((f) => {
+    const copy = f.match(COPY_SUFFIX);
+    if (!copy || reported.has(f)) return;
+    const original = copy[1] + copy[2];
+    if (images.includes(original)) warn(`"${f}" looks like a copy of "${original}"`);
+  });
+
+  return issues;
+}
+
+/** Validates every `<pagesDir>/<slug>/` folder and returns the problems found per folder. */
+export function validateWorkFolders(pagesDir: string, collectionIds?: string[]): FolderReport[] {
+  return listWorkFolders(pagesDir).map((folder) => ({
+    folder,
+    issues: validateWorkFolder(path.join(pagesDir, folder), folder, collectionIds),
+  }));
+}
+
+/** Ids defined in the collections file, or undefined when it is missing or unreadable. */
+export function readCollectionIds(file: string): string[] | undefined {
+  if (!fs.existsSync(file)) return undefined;
+  try {
+    const { collections } = JSON.parse(fs.readFileSync(file, 'utf8')) as { collections?: Collection[] };
+    return (collections ?? []).map((c) => c.id);
+  } catch {
+    return undefined;
+  }
+}
+
+/** Problems of the events file (unknown work slugs, bad dates); empty when it is missing. */
+export function validateAgendaFile(file: string, pagesDir: string): string[] {
+  if (!fs.existsSync(file)) return [];
+  try {
+    const { events } = JSON.parse(fs.readFileSync(file, 'utf8')) as { events?: AgendaEvent[] };
+    return validateAgenda(events ?? [], listWorkFolders(pagesDir));
+  } catch (e) {
+    return [`not valid JSON (${(e as Error).message})`];
+  }
+}
+
+export function formatReport(reports: FolderReport[], pagesDirLabel = 'pages'): string {
+  const withIssues = reports.filter((r) => r.issues.length > 0);
+  const count = (level: WorkMetaIssue['level']) =>
+    withIssues.reduce((n, r) => n + r.issues.filter((i) => i.level === level).length, 0);
+  if (withIssues.length === 0) return `${reports.length} work folders OK`;
+
+  const lines = [
+    `${withIssues.length} of ${reports.length} work folders have problems ` +
+      `(${count('error')} errors, ${count('warning')} warnings)`,
+  ];
+  withIssues.forEach((r) => {
+    lines.push('', `  ${pagesDirLabel}/${r.folder}`);
+    r.issues.forEach((i) => lines.push(`    ${i.level === 'error' ? '✖' : '⚠'} ${i.message}`));
+  });
+  return lines.join('\n');
+}
+
+/**
+ * Lints the work folders under `pages/` (including their collection ids) and
+ * the agenda: fails `vite build` on
+ * invalid metadata, missing files or events pointing at unknown works, and
+ * prints the same report as a warning in dev, refreshing it whenever
+ * something under `pages/`, the agenda or the collections change.
+ */
+export default function validateWorks({
+  pagesDir = 'pages',
+  agenda = 'agenda.json',
+  collections = 'collections.json',
+  failOnError = true,
+}: ValidateWorksOptions = {}): Plugin {
+  let config: ResolvedConfig;
+  let absPagesDir = '';
+  let agendaFile = '';
+  let collectionsFile = '';
+
+  const run = () => {
+    const reports = validateWorkFolders(absPagesDir, readCollectionIds(collectionsFile));
+    const agendaProblems = validateAgendaFile(agendaFile, absPagesDir);
+    const hasErrors = agendaProblems.length > 0 || reports.some((r) => r.issues.some((i) => i.level === 'error'));
+    const hasIssues = agendaProblems.length > 0 || reports.some((r) => r.issues.length > 0);
+    const report = [
+      formatReport(reports, pagesDir),
+      ...(agendaProblems.length > 0 ? ['', `  ${agenda}`, ...agendaProblems.map((p) => `    ✖ ${p}`)] : []),
+    ].join('\n');
+    return { report, hasErrors, hasIssues };
+  };
+
+  return {
+    name: 'validate-works',
+
+    configResolved(resolved) {
+      config = resolved;
+      absPagesDir = path.resolve(config.root, pagesDir);
+      agendaFile = path.resolve(config.root, agenda);
+      collectionsFile = path.resolve(config.root, collections);
+    },
+
+    buildStart() {
+      const { report, hasErrors, hasIssues } = run();
+      if (config.command === 'build' && failOnError && hasErrors) {
+        this.error(report);
+      }
+      if (hasIssues) config.logger.warn(`[validate-works] ${report}`);
+      else config.logger.info(`[validate-works] ${report}`);
+    },
+
+    configureServer(server) {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const onChange = (file: string) => {
+        if (!file.startsWith(absPagesDir + path.sep) && file !== agendaFile && file !== collectionsFile) return;
+        clearTimeout(timer);
+        timer = setTimeout(() => {
+          const { report, hasIssues } = run();
+          if (hasIssues) config.logger.warn(`[validate-works] ${report}`, { timestamp: true });
+        }, 200);
+      };
+      server.watcher.on('add', onChange);
+      server.watcher.on('change', onChange);
+      server.watcher.on('unlink', onChange);
+    },
+  };
+}
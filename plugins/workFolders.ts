@@ -0,0 +1,34 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+/** Names of the work folders under `pagesDir`, sorted. */
+export function listWorkFolders(pagesDir: string): string[] {
+  if (!fs.existsSync(pagesDir)) return [];
+  return fs
+    .readdirSync(pagesDir, { withFileTypes: true })
+    .filter((d) => d.isDirectory() && !d.name.startsWith('.'))
+    .map((d) => d.name)
+    .sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Path of the metadata file for a work folder: `<folder>.json` when present,
+ * otherwise the first JSON file found (which the content lint reports).
+ */
+export function findMetaFile(pagesDir: string, folder: string): string | null {
+  const dir = path.join(pagesDir, folder);
+  const jsonFiles = fs.readdirSync(dir).filter((f) => f.endsWith('.json') && !f.startsWith('.'));
+  if (jsonFiles.length === 0) return null;
+  return path.join(dir, jsonFiles.includes(`${folder}.json`) ? `${folder}.json` : jsonFiles[0]);
+}
+
+/** Parsed metadata of a work folder, or null when missing or unparseable. */
+export function readWorkMeta(pagesDir: string, folder: string): unknown {
+  const file = findMetaFile(pagesDir, folder);
+  if (!file) return null;
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch {
+    return null;
+  }
+}
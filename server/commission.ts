@@ -0,0 +1,58 @@
+import {
+  commissionSummary,
+  normalizeCommissionRequest,
+  validateCommissionRequest,
+  type CommissionRequest,
+  type CommissionResponse,
+} from '../src/content/commission';
+import { localizePath } from '../src/i18n/languages';
+import { deliver, jsonEndpoint, type EndpointOptions, type JsonResult } from './http';
+
+// "ENC-20261018-K3F9": the date it came in plus a short random part, quoted in replies
+function commissionReference(now: Date): string {
+  const date = now.toISOString().slice(0, 10).replace(/-/g, '');
+  return `ENC-${date}-${Math.random().toString(36).slice(2, 6).toUpperCase()}`;
+}
+
+// The artist reads these in Catalan, whatever language the form was filled in
+function composeMail(request: CommissionRequest, reference: string, siteUrl: string) {
+  const rows = commissionSummary(request, 'catala', (slug) => `${slug} (${siteUrl}${localizePath(`/obra/${slug}`, 'catala')})`);
+  const width = Math.max(...rows.map((row) => row.label.length));
+  return {
+    replyTo: request.email,
+    subject: `Sol·licitud d'encàrrec ${reference}: ${request.entity}`,
+    text: [`Referència: ${reference}`, '', ...rows.map((row) => `${row.label.padEnd(width)}  ${row.value}`)].join('\n'),
+  };
+}
+
+/**
+ * The `/api/commission` logic: the same checks as the wizard (including the
+ * minimum lead time), then a summary mail with a reference for the reply.
+ */
+export async function handleCommission(
+  raw: unknown,
+  clientKey: string,
+  options: EndpointOptions & { siteUrl?: string },
+  now: Date = new Date()
+): Promise<JsonResult<CommissionResponse>> {
+  const request = normalizeCommissionRequest(raw);
+  const reference = commissionReference(now);
+  if (request.website) return { status: 200, body: { ok: true, reference } };
+
+  const fields = validateCommissionRequest(request, undefined, now);
+  if (Object.keys(fields).length > 0) return { status: 422, body: { ok: false, error: 'invalid', fields } };
+
+  if (!options.rateLimiter.hit(clientKey)) return { status: 429, body: { ok: false, error: 'rateLimited' } };
+
+  if (!(await deliver(options, composeMail(request, reference, options.siteUrl ?? ''), 'commission'))) {
+    return { status: 502, body: { ok: false, error: 'failed' } };
+  }
+  return { status: 200, body: { ok: true, reference } };
+}
+
+/** Node request handler for `/api/commission`, shared by the serverless function and the dev server. */
+export const commissionHandler = (options: EndpointOptions & { siteUrl?: string }) =>
+  jsonEndpoint<CommissionResponse>((raw, clientKey) => handleCommission(raw, clientKey, options), {
+    methodNotAllowed: { ok: false, error: 'failed' },
+    badRequest: { ok: false, error: 'invalid', fields: {} },
+  });
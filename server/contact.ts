@@ -0,0 +1,49 @@
+import {
+  normalizeContactRequest,
+  validateContactRequest,
+  type ContactRequest,
+  type ContactResponse,
+} from '../src/content/contactForm';
+import { deliver, jsonEndpoint, type EndpointOptions, type JsonResult } from './http';
+
+function composeMail(request: ContactRequest) {
+  const header = [`Nom: ${request.name}`, `Correu: ${request.email}`];
+  if (request.organisation) header.push(`Entitat: ${request.organisation}`);
+  return {
+    replyTo: request.email,
+    subject: `Contacte web: ${request.name}${request.organisation ? ` (${request.organisation})` : ''}`,
+    text: [...header, '', request.message].join('\n'),
+  };
+}
+
+/**
+ * The `/api/contact` logic, independent of the server it runs on: validates
+ * the posted form, drops honeypot submissions, rate-limits per client and
+ * hands the inquiry to the mail transport.
+ */
+export async function handleContact(
+  raw: unknown,
+  clientKey: string,
+  options: EndpointOptions
+): Promise<JsonResult<ContactResponse>> {
+  const request = normalizeContactRequest(raw);
+  // Bots get the same answer as people, so there is nothing to learn from it
+  if (request.website) return { status: 200, body: { ok: true } };
+
+  const fields = validateContactRequest(request);
+  if (Object.keys(fields).length > 0) return { status: 422, body: { ok: false, error: 'invalid', fields } };
+
+  if (!options.rateLimiter.hit(clientKey)) return { status: 429, body: { ok: false, error: 'rateLimited' } };
+
+  if (!(await deliver(options, composeMail(request), 'contact'))) {
+    return { status: 502, body: { ok: false, error: 'failed' } };
+  }
+  return { status: 200, body: { ok: true } };
+}
+
+/** Node request handler for `/api/contact`, shared by the serverless function and the dev server. */
+export const contactHandler = (options: EndpointOptions) =>
+  jsonEndpoint<ContactResponse>((raw, clientKey) => handleContact(raw, clientKey, options), {
+    methodNotAllowed: { ok: false, error: 'failed' },
+    badRequest: { ok: false, error: 'invalid', fields: {} },
+  });
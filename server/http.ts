@@ -0,0 +1,104 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { CONTACT } from '../src/content/contact';
+import type { MailMessage, MailTransport } from './mail';
+
+/** Counts requests per client in a sliding window. In memory, so per server instance. */
+export type RateLimiter = {
+  /** Records a request from `key`; false when it is over the limit. */
+  hit(key: string, now?: number): boolean;
+};
+
+export function createRateLimiter({ max, windowMs }: { max: number; windowMs: number }): RateLimiter {
+  const hits = new Map<string, number[]>();
+  return {
+    hit(key, now = Date.now()) {
+      const recent = (hits.get(key) ?? []).filter((t) => now - t < windowMs);
+      const allowed = recent.length < max;
+      if (allowed) recent.push(now);
+      hits.set(key, recent);
+      // Drop clients with nothing left in the window so the map doesn't grow forever
+      if (hits.size > 1000) hits.forEach((times, k) => times.every((t) => now - t >= windowMs) && hits.delete(k));
+      return allowed;
+    },
+  };
+}
+
+/** What the form endpoints need: where mail goes and how often a client may post. */
+export type EndpointOptions = {
+  /**
+   * The transport, or a function resolving it per message, so a configuration
+   * error fails that request with the usual JSON error instead of the whole function.
+   */
+  transport: MailTransport | (() => MailTransport);
+  rateLimiter: RateLimiter;
+  /** Where inquiries go; the address shown on the site by default. */
+  to?: string;
+  /** Sender address the transport is allowed to send from; Resend's shared test sender by default. */
+  from?: string;
+};
+
+/** Status code and JSON body of an endpoint response. */
+export type JsonResult<T> = { status: number; body: T };
+
+/** Sends `mail` with the endpoint's transport; false (and logged) when it can't be resolved or fails. */
+export async function deliver(
+  options: EndpointOptions,
+  mail: Omit<MailMessage, 'to' | 'from'>,
+  tag: string
+): Promise<boolean> {
+  let transport: MailTransport | undefined;
+  try {
+    transport = typeof options.transport === 'function' ? options.transport() : options.transport;
+    await transport.send({
+      ...mail,
+      to: options.to ?? CONTACT.email,
+      from: options.from ?? 'Pau Reig - Art <onboarding@resend.dev>',
+    });
+    return true;
+  } catch (e) {
+    console.error(`[${tag}] ${transport ? `${transport.name} transport failed` : 'no mail transport'}:`, e);
+    return false;
+  }
+}
+
+async function readBody(req: IncomingMessage & { body?: unknown }): Promise<unknown> {
+  // Vercel's Node runtime has already parsed the body
+  if (req.body !== undefined) return typeof req.body === 'string' ? JSON.parse(req.body) : req.body;
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+}
+
+/**
+ * Node request handler for a JSON POST endpoint, usable both as a Vercel
+ * function and as dev-server middleware. `handle` gets the parsed body and a
+ * key identifying the client for rate limiting; `rejected` is the body for
+ * other methods and unparseable requests.
+ */
+export function jsonEndpoint<T>(
+  handle: (raw: unknown, clientKey: string) => Promise<JsonResult<T>>,
+  rejected: { methodNotAllowed: T; badRequest: T }
+) {
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    const send = ({ status, body }: JsonResult<T>) => {
+      res.statusCode = status;
+      res.setHeader('Content-Type', 'application/json; charset=utf-8');
+      res.setHeader('Cache-Control', 'no-store');
+      res.end(JSON.stringify(body));
+    };
+    if (req.method !== 'POST') {
+      res.setHeader('Allow', 'POST');
+      return send({ status: 405, body: rejected.methodNotAllowed });
+    }
+    let raw: unknown;
+    try {
+      raw = await readBody(req);
+    } catch {
+      return send({ status: 400, body: rejected.badRequest });
+    }
+    const forwarded = req.headers['x-forwarded-for'];
+    const clientKey =
+      (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim() || req.socket.remoteAddress || '';
+    send(await handle(raw, clientKey));
+  };
+}
@@ -0,0 +1,85 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+/** A plain-text email, as the contact endpoint composes it. */
+export type MailMessage = {
+  to: string;
+  from: string;
+  replyTo?: string;
+  subject: string;
+  text: string;
+};
+
+/** Delivers mail. Swapped for a console or file stand-in in development and tests. */
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+/** Prints each message to stdout instead of sending it. */
+export function consoleTransport(): MailTransport {
+  return {
+    name: 'console',
+    async send(message) {
+      console.info(
+        `[mail] To: ${message.to}\n[mail] Reply-To: ${message.replyTo ?? '-'}\n[mail] Subject: ${message.subject}\n\n${message.text}\n`
+      );
+    },
+  };
+}
+
+/** Writes each message as a JSON file in `dir`, one file per message. */
+export function fileTransport(dir: string): MailTransport {
+  return {
+    name: 'file',
+    async send(message) {
+      await fs.mkdir(dir, { recursive: true });
+      const file = path.join(dir, `${new Date().toISOString().replace(/[:.]/g, '-')}-${Math.random().toString(36).slice(2, 8)}.json`);
+      await fs.writeFile(file, JSON.stringify(message, null, 2) + '\n');
+    },
+  };
+}
+
+/** Sends through the Resend HTTP API (https://resend.com/docs/api-reference/emails/send-email). */
+export function resendTransport(apiKey: string): MailTransport {
+  return {
+    name: 'resend',
+    async send(message) {
+      const res = await fetch('https://api.resend.com/emails', {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${apiKey}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          from: message.from,
+          to: [message.to],
+          reply_to: message.replyTo,
+          subject: message.subject,
+          text: message.text,
+        }),
+      });
+      if (!res.ok) throw new Error(`Resend responded ${res.status}: ${await res.text()}`);
+    },
+  };
+}
+
+/**
+ * Transport chosen by `MAIL_TRANSPORT` (`resend`, `file` or `console`).
+ * Without it, Resend is used when `RESEND_API_KEY` is set. Only development
+ * falls back to the console; anywhere else a missing key throws, which the
+ * endpoints resolve per message and answer as a failed delivery, instead of
+ * telling visitors `ok` while their inquiries only reach the logs.
+ */
+export function transportFromEnv(env: Record<string, string | undefined> = process.env): MailTransport {
+  const kind = env.MAIL_TRANSPORT ?? (env.RESEND_API_KEY ? 'resend' : env.NODE_ENV === 'development' ? 'console' : '');
+  if (!kind) throw new Error('RESEND_API_KEY is not set (or set MAIL_TRANSPORT to pick another transport)');
+  switch (kind) {
+    case 'resend':
+      if (!env.RESEND_API_KEY) throw new Error('MAIL_TRANSPORT=resend needs RESEND_API_KEY');
+      return resendTransport(env.RESEND_API_KEY);
+    case 'file':
+      return fileTransport(env.MAIL_DIR ?? '.mail');
+    case 'console':
+      return consoleTransport();
+    default:
+      throw new Error(`unknown MAIL_TRANSPORT "${kind}"`);
+  }
+}
@@ -0,0 +1,6 @@
+/** Public origin of the site, from the environment; empty when unknown. */
+export function resolveSiteUrl(siteUrl?: string): string {
+  const vercelDomain = process.env.VERCEL_PROJECT_PRODUCTION_URL;
+  const url = siteUrl ?? process.env.SITE_URL ?? (vercelDomain ? `https://${vercelDomain}` : '');
+  return url.replace(/\/+$/, '');
+}
@@ -1,26 +1,93 @@
-import React, { useEffect, useMemo, useState } from 'react';
-import { NavLink, Route, Routes, useLocation } from 'react-router-dom';
+import React, { Suspense, useCallback, useEffect, useMemo, useState } from 'react';
+import { Navigate, NavLink, Outlet, useLocation, useNavigate, useRoutes } from 'react-router-dom';
 
 import Inici from './pages/Inici';
 import LArtista from './pages/LArtista';
 import LObra from './pages/LObra';
+import Agenda from './pages/Agenda';
 import ElTaller from './pages/ElTaller';
+import Encarrec from './pages/Encarrec';
 import logoUrl from '../logo/logo_main.png';
+import { usePageMeta } from './content/pageMeta';
+import {
+  LANGUAGES,
+  LANGUAGE_INFO,
+  LanguageContext,
+  detectLanguage,
+  localizePath,
+  splitLanguagePath,
+  storeLanguage,
+  translate,
+  useHreflangAlternates,
+  type Language,
+  type MessageKey,
+} from './i18n';
+import { siteRoutes } from './routes';
+import { THEME_MODES, useTheme, type ThemeMode } from './theme';
 
-type Language = 'catala' | 'english';
-
-export const LanguageContext = React.createContext<{ language: Language; setLanguage: (l: Language) => void }>({ language: 'catala', setLanguage: () => {} });
+// Content admin backed by the dev server (plugins/contentAdmin.ts); not part of production builds
+const Admin = import.meta.env.DEV ? React.lazy(() => import('./admin/Admin')) : null;
 
 export const ModalContext = React.createContext<{ isModalOpen: boolean; setIsModalOpen: (open: boolean) => void }>({ isModalOpen: false, setIsModalOpen: () => {} });
 
+// Unprefixed URLs (/, /obra/lleo, links shared before the language prefix) go to the visitor's language
+function LanguageRedirect() {
+  const location = useLocation();
+  // Already prefixed: an unknown page within a language, render nothing
+  if (splitLanguagePath(location.pathname).language) return null;
+  return (
+    <Navigate
+      replace
+      to={{ pathname: localizePath(location.pathname, detectLanguage()), search: location.search, hash: location.hash }}
+    />
+  );
+}
+
+const THEME_ICONS: Record<ThemeMode, string> = { light: '☀', dark: '☾', system: '◐' };
+
+// Light, dark or the device's scheme, next to the language buttons
+function ThemeToggle({ t }: { t: (key: MessageKey) => string }) {
+  const { mode, setMode } = useTheme();
+  return (
+    <div className="lang-toggle theme-toggle" role="group" aria-label={t('nav.themeToggle')}>
+      {THEME_MODES.map((m) => (
+        <button
+          key={m}
+          className={mode === m ? 'active' : ''}
+          onClick={() => setMode(m)}
+          aria-pressed={mode === m}
+          aria-label={t(`nav.theme.${m}`)}
+          title={t(`nav.theme.${m}`)}
+        >
+          {THEME_ICONS[m]}
+        </button>
+      ))}
+    </div>
+  );
+}
+
 export default function App() {
-  const [language, setLanguage] = useState<Language>('catala');
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { language: pathLanguage, path } = splitLanguagePath(location.pathname);
+  const language = useMemo(() => pathLanguage ?? detectLanguage(), [pathLanguage]);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
-  const langCtx = useMemo(() => ({ language, setLanguage }), [language]);
+
+  // Switching language moves to the same page under the other prefix
+  const setLanguage = useCallback(
+    (next: Language) => {
+      storeLanguage(next);
+      navigate(
+        { pathname: localizePath(path, next), search: location.search, hash: location.hash },
+        { replace: true }
+      );
+    },
+    [navigate, path, location.search, location.hash]
+  );
+  const langCtx = useMemo(() => ({ language, setLanguage }), [language, setLanguage]);
   const modalCtx = useMemo(() => ({ isModalOpen, setIsModalOpen }), [isModalOpen]);
-  const location = useLocation();
-  const isHome = location.pathname === '/';
+  const isHome = path === '/';
   const [isScrolled, setIsScrolled] = useState(false);
 
   useEffect(() => {
@@ -37,6 +104,13 @@ export default function App() {
     return () => window.removeEventListener('scroll', onScroll);
   }, [isHome]);
 
+  useEffect(() => {
+    document.documentElement.lang = LANGUAGE_INFO[language].locale;
+  }, [language]);
+
+  useHreflangAlternates(path);
+  usePageMeta(path, language);
+
   // Close mobile menu when route changes
   useEffect(() => {
     setIsMobileMenuOpen(false);
@@ -46,6 +120,27 @@ export default function App() {
     setIsMobileMenuOpen(!isMobileMenuOpen);
   };
 
+  const t = (key: MessageKey) => translate(language, key);
+  const to = (p: string) => localizePath(p, language);
+
+  const routes = useRoutes(
+    siteRoutes({
+      language: <Outlet />,
+      home: <Inici />,
+      artist: <LArtista />,
+      work: <LObra />,
+      agenda: <Agenda />,
+      workshop: <ElTaller />,
+      commission: <Encarrec />,
+      admin: Admin && (
+        <Suspense fallback={null}>
+          <Admin />
+        </Suspense>
+      ),
+      fallback: <LanguageRedirect />,
+    })
+  );
+
   return (
     <LanguageContext.Provider value={langCtx}>
       <ModalContext.Provider value={modalCtx}>
@@ -55,18 +150,30 @@ export default function App() {
               <img src={logoUrl} alt="Pau Reig - Art" />
             </div>
             <div className="spacer" />
-            <NavLink to="/" className={({ isActive }) => (isActive ? 'active' : '')}>Inici</NavLink>
-            <NavLink to="/artista" className={({ isActive }) => (isActive ? 'active' : '')}>L'Artista</NavLink>
-            <NavLink to="/obra" className={({ isActive }) => (isActive ? 'active' : '')}>L'Obra</NavLink>
-            <NavLink to="/taller" className={({ isActive }) => (isActive ? 'active' : '')}>El Taller</NavLink>
-            <div className="lang-toggle" role="group" aria-label="Language toggle">
-              <button className={language === 'catala' ? 'active' : ''} onClick={() => setLanguage('catala')}>CAT</button>
-              <button className={language === 'english' ? 'active' : ''} onClick={() => setLanguage('english')}>EN</button>
+            <NavLink to={to('/')} end className={({ isActive }) => (isActive ? 'active' : '')}>{t('nav.home')}</NavLink>
+            <NavLink to={to('/artista')} className={({ isActive }) => (isActive ? 'active' : '')}>{t('nav.artist')}</NavLink>
+            <NavLink to={to('/obra')} className={({ isActive }) => (isActive ? 'active' : '')}>{t('nav.work')}</NavLink>
+            <NavLink to={to('/agenda')} className={({ isActive }) => (isActive ? 'active' : '')}>{t('nav.agenda')}</NavLink>
+            <NavLink to={to('/taller')} className={({ isActive }) => (isActive ? 'active' : '')}>{t('nav.workshop')}</NavLink>
+            <NavLink to={to('/encarrec')} className={({ isActive }) => (isActive ? 'active' : '')}>{t('nav.commission')}</NavLink>
+            <div className="lang-toggle" role="group" aria-label={t('nav.languageToggle')}>
+              {LANGUAGES.map((l) => (
+                <button
+                  key={l}
+                  className={language === l ? 'active' : ''}
+                  onClick={() => setLanguage(l)}
+                  lang={LANGUAGE_INFO[l].locale}
+                  title={LANGUAGE_INFO[l].name}
+                >
+                  {LANGUAGE_INFO[l].label}
+                </button>
+              ))}
             </div>
+            <ThemeToggle t={t} />
             <button 
               className="mobile-menu-toggle" 
               onClick={toggleMobileMenu}
-              aria-label="Toggle mobile menu"
+              aria-label={t('nav.mobileMenuToggle')}
               aria-expanded={isMobileMenuOpen}
             >
               {isMobileMenuOpen ? '✕' : '☰'}
@@ -77,28 +184,29 @@ export default function App() {
         {/* Mobile Menu Overlay */}
         <div className={`mobile-menu-overlay ${isMobileMenuOpen ? 'open' : ''}`}>
           <div className="mobile-menu-content">
-            <NavLink to="/" onClick={() => setIsMobileMenuOpen(false)}>
-              {language === 'catala' ? 'Inici' : 'Home'}
+            <NavLink to={to('/')} end onClick={() => setIsMobileMenuOpen(false)}>
+              {t('nav.home')}
+            </NavLink>
+            <NavLink to={to('/artista')} onClick={() => setIsMobileMenuOpen(false)}>
+              {t('nav.artist')}
+            </NavLink>
+            <NavLink to={to('/obra')} onClick={() => setIsMobileMenuOpen(false)}>
+              {t('nav.work')}
             </NavLink>
-            <NavLink to="/artista" onClick={() => setIsMobileMenuOpen(false)}>
-              {language === 'catala' ? 'L\'Artista' : 'The Artist'}
+            <NavLink to={to('/agenda')} onClick={() => setIsMobileMenuOpen(false)}>
+              {t('nav.agenda')}
             </NavLink>
-            <NavLink to="/obra" onClick={() => setIsMobileMenuOpen(false)}>
-              {language === 'catala' ? 'L\'Obra' : 'The Work'}
+            <NavLink to={to('/taller')} onClick={() => setIsMobileMenuOpen(false)}>
+              {t('nav.workshop')}
             </NavLink>
-            <NavLink to="/taller" onClick={() => setIsMobileMenuOpen(false)}>
-              {language === 'catala' ? 'El Taller' : 'The Workshop'}
+            <NavLink to={to('/encarrec')} onClick={() => setIsMobileMenuOpen(false)}>
+              {t('nav.commission')}
             </NavLink>
           </div>
         </div>
 
         <div className={`routes ${isHome ? 'routes-home' : 'routes-default'} ${isModalOpen ? 'compact' : ''}`}>
-          <Routes>
-            <Route path="/" element={<Inici />} />
-            <Route path="/artista" element={<LArtista />} />
-            <Route path="/obra" element={<LObra />} />
-            <Route path="/taller" element={<ElTaller />} />
-          </Routes>
+          {routes}
         </div>
         <footer className="footer">
           <div className="container">© {new Date().getFullYear()} Pau Reig – Art</div>
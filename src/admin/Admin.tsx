@@ -0,0 +1,563 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { NavLink, Route, Routes, useNavigate, useParams } from 'react-router-dom';
+import { LANGUAGES, LANGUAGE_INFO } from '../i18n';
+import {
+  WORK_TYPOLOGIES,
+  validateWorkMeta,
+  type Measurement,
+  type WorkMeta,
+  type WorkMetaIssue,
+} from '../content/workMeta';
+import {
+  AdminApiError,
+  createWork,
+  imageUrl,
+  listWorks,
+  loadTexts,
+  saveAlbumOrder,
+  saveTexts,
+  saveWorkMeta,
+  setImageRole,
+  uploadImage,
+  type AdminWork,
+  type PageTexts,
+  type TextFile,
+} from './api';
+import './admin.css';
+
+// Dev-only tool for the artist, so the labels are in Catalan only and stay out of the i18n catalogue
+
+// Form fields as the inputs hold them; converted to and from WorkMeta on load and save
+type MetaForm = {
+  nom: string;
+  city: string;
+  address: string;
+  year: string;
+  month: string;
+  lat: string;
+  lng: string;
+  typology: string;
+  materials: string;
+  heightValue: string;
+  heightUnit: string;
+  weightValue: string;
+  weightUnit: string;
+  commissioner: string;
+  collaborators: string;
+  text_catala: string;
+  text_angles: string;
+  text_castellano: string;
+};
+
+const TEXT_FIELDS = [
+  { key: 'text_catala', label: 'Text en català' },
+  { key: 'text_angles', label: 'Text en anglès' },
+  { key: 'text_castellano', label: 'Text en castellà (opcional, si no hi és es mostra el català)' },
+] as const;
+
+const list = (value?: string[]) => (value ?? []).join(', ');
+const parseList = (value: string) =>
+  value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+const optional = (value: string) => value.trim() || undefined;
+const optionalNumber = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+function toForm(meta: Partial<WorkMeta>): MetaForm {
+  return {
+    nom: meta.nom ?? '',
+    city: meta.city ?? '',
+    address: meta.address ?? '',
+    year: meta.year?.toString() ?? '',
+    month: meta.month?.toString() ?? '',
+    lat: meta.lat?.toString() ?? '',
+    lng: meta.lng?.toString() ?? '',
+    typology: meta.typology ?? '',
+    materials: list(meta.materials),
+    heightValue: meta.height?.value.toString() ?? '',
+    heightUnit: meta.height?.unit ?? 'm',
+    weightValue: meta.weight?.value.toString() ?? '',
+    weightUnit: meta.weight?.unit ?? 'kg',
+    commissioner: meta.commissioner ?? '',
+    collaborators: list(meta.collaborators),
+    text_catala: meta.text_catala ?? '',
+    text_angles: meta.text_angles ?? '',
+    text_castellano: meta.text_castellano ?? '',
+  };
+}
+
+// Keeps fields the form doesn't edit (album) from `base`
+function fromForm(form: MetaForm, base: Partial<WorkMeta>): Partial<WorkMeta> {
+  const year = optional(form.year);
+  const month = optional(form.month);
+  const measurement = <U extends string>(value: string, unit: string) =>
+    value.trim() === '' ? undefined : ({ value: Number(value), unit } as Measurement<U>);
+  const materials = parseList(form.materials);
+  const collaborators = parseList(form.collaborators);
+  return {
+    ...base,
+    nom: form.nom.trim(),
+    city: optional(form.city),
+    address: optional(form.address),
+    text_catala: form.text_catala.trim(),
+    text_angles: form.text_angles.trim(),
+    text_castellano: optional(form.text_castellano),
+    // Numbers stay numbers in the JSON, anything else is kept as written for the lint to report
+    year: year && /^\d+$/.test(year) ? Number(year) : year,
+    month: month && /^\d+$/.test(month) ? Number(month) : month,
+    lat: optionalNumber(form.lat),
+    lng: optionalNumber(form.lng),
+    typology: (optional(form.typology) as WorkMeta['typology']) ?? undefined,
+    materials: materials.length ? materials : undefined,
+    height: measurement(form.heightValue, form.heightUnit),
+    weight: measurement(form.weightValue, form.weightUnit),
+    commissioner: optional(form.commissioner),
+    collaborators: collaborators.length ? collaborators : undefined,
+  };
+}
+
+function IssueList({ issues }: { issues: WorkMetaIssue[] }) {
+  if (issues.length === 0) return null;
+  return (
+    <ul className="admin-issues">
+      {issues.map((issue, idx) => (
+        <li key={idx} className={`admin-issue-${issue.level}`}>
+          {issue.level === 'error' ? 'Error' : 'Avís'}: {issue.message}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function WorkList({ works, onCreated }: { works: AdminWork[]; onCreated: (work: AdminWork) => void }) {
+  const [slug, setSlug] = useState('');
+  const [nom, setNom] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const onSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      onCreated(await createWork(slug.trim(), nom.trim()));
+      setSlug('');
+      setNom('');
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  return (
+    <aside className="admin-sidebar">
+      <ul className="admin-work-list">
+        {works.map((work) => {
+          const errors = work.issues.filter((i) => i.level === 'error').length;
+          const warnings = work.issues.length - errors;
+          return (
+            <li key={work.slug}>
+              <NavLink to={`/admin/obra/${work.slug}`}>
+                <span>{work.meta.nom || work.slug}</span>
+                {errors > 0 && <span className="admin-badge admin-badge-error">{errors}</span>}
+                {warnings > 0 && <span className="admin-badge admin-badge-warning">{warnings}</span>}
+              </NavLink>
+            </li>
+          );
+        })}
+      </ul>
+      <form className="admin-new-work" onSubmit={onSubmit}>
+        <h3>Obra nova</h3>
+        <label>
+          Carpeta (slug)
+          <input value={slug} onChange={(e) => setSlug(e.target.value)} placeholder="drac-de-solsona" required />
+        </label>
+        <label>
+          Nom
+          <input value={nom} onChange={(e) => setNom(e.target.value)} required />
+        </label>
+        <button type="submit">Crea</button>
+        {error && <p className="admin-issue-error">{error}</p>}
+      </form>
+    </aside>
+  );
+}
+
+function MetaEditor({ work, onSaved }: { work: AdminWork; onSaved: (work: AdminWork) => void }) {
+  const [form, setForm] = useState(() => toForm(work.meta));
+  const [serverIssues, setServerIssues] = useState<WorkMetaIssue[]>([]);
+  const [status, setStatus] = useState<string | null>(null);
+
+  useEffect(() => {
+    setForm(toForm(work.meta));
+    setServerIssues([]);
+    setStatus(null);
+  }, [work.slug]);
+
+  const meta = useMemo(() => fromForm(form, work.meta), [form, work.meta]);
+  // Same checks as the build's content lint, as you type
+  const issues = useMemo(() => validateWorkMeta(meta), [meta]);
+  const hasErrors = issues.some((i) => i.level === 'error');
+  const field = (key: keyof MetaForm) => ({
+    value: form[key],
+    onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) =>
+      setForm((f) => ({ ...f, [key]: e.target.value })),
+  });
+
+  const onSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      onSaved(await saveWorkMeta(work.slug, meta));
+      setServerIssues([]);
+      setStatus('Desat');
+    } catch (err) {
+      setServerIssues(err instanceof AdminApiError ? err.issues : []);
+      setStatus((err as Error).message);
+    }
+  };
+
+  return (
+    <form className="admin-meta" onSubmit={onSubmit}>
+      <div className="admin-grid">
+        <label>
+          Nom
+          <input {...field('nom')} />
+        </label>
+        <label>
+          Ciutat
+          <input {...field('city')} />
+        </label>
+        <label>
+          Adreça
+          <input {...field('address')} />
+        </label>
+        <label>
+          Any
+          <input {...field('year')} inputMode="numeric" />
+        </label>
+        <label>
+          Mes
+          <input {...field('month')} placeholder="juliol, July, 7…" />
+        </label>
+        <label>
+          Latitud
+          <input {...field('lat')} type="number" step="any" />
+        </label>
+        <label>
+          Longitud
+          <input {...field('lng')} type="number" step="any" />
+        </label>
+      </div>
+
+      <fieldset>
+        <legend>Fitxa tècnica</legend>
+        <div className="admin-grid">
+          <label>
+            Tipologia
+            <select {...field('typology')}>
+              <option value="">—</option>
+              {WORK_TYPOLOGIES.map((t) => (
+                <option key={t} value={t}>
+                  {t}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Materials (separats per comes)
+            <input {...field('materials')} />
+          </label>
+          <label>
+            Alçada
+            <span className="admin-measure">
+              <input {...field('heightValue')} type="number" step="any" min="0" />
+              <select {...field('heightUnit')}>
+                <option value="cm">cm</option>
+                <option value="m">m</option>
+              </select>
+            </span>
+          </label>
+          <label>
+            Pes
+            <span className="admin-measure">
+              <input {...field('weightValue')} type="number" step="any" min="0" />
+              <select {...field('weightUnit')}>
+                <option value="kg">kg</option>
+                <option value="g">g</option>
+              </select>
+            </span>
+          </label>
+          <label>
+            Encàrrec
+            <input {...field('commissioner')} />
+          </label>
+          <label>
+            Col·laboracions (separades per comes)
+            <input {...field('collaborators')} />
+          </label>
+        </div>
+      </fieldset>
+
+      {TEXT_FIELDS.map(({ key, label }) => (
+        <label key={key} className="admin-text">
+          {label}
+          <textarea {...field(key)} rows={6} />
+        </label>
+      ))}
+
+      <IssueList issues={serverIssues.length ? serverIssues : issues} />
+      <div className="admin-actions">
+        <button type="submit" disabled={hasErrors}>
+          Desa la fitxa
+        </button>
+        {status && <span className="admin-status">{status}</span>}
+      </div>
+    </form>
+  );
+}
+
+function ImageManager({ work, onChanged }: { work: AdminWork; onChanged: (work: AdminWork) => void }) {
+  const [version, setVersion] = useState(() => Date.now());
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { slug, images } = work;
+
+  const run = async (action: () => Promise<AdminWork>) => {
+    setBusy(true);
+    try {
+      onChanged(await action());
+      setVersion(Date.now());
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const move = (idx: number, delta: number) => {
+    const order = [...images];
+    [order[idx], order[idx + delta]] = [order[idx + delta], order[idx]];
+    run(() => saveAlbumOrder(slug, order));
+  };
+
+  const onUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+    run(async () => {
+      let updated = work;
+      for (const file of files) updated = await uploadImage(slug, file);
+      return updated;
+    });
+  };
+
+  const isRole = (file: string, role: 'main' | 'main2') => file.toLowerCase().startsWith(`${role}.`);
+
+  return (
+    <section className="admin-images" aria-busy={busy}>
+      <h3>Imatges</h3>
+      <p className="admin-hint">
+        La principal (main) va sempre primera a l’àlbum i és la imatge de la fitxa; la de llistat (main2) es fa
+        servir a la vista de llista.
+      </p>
+      <ol className="admin-image-list">
+        {images.map((file, idx) => (
+          <li key={file}>
+            <img src={imageUrl(slug, file, version)} alt={file} loading="lazy" />
+            <span className="admin-file-name">{file}</span>
+            <div className="admin-image-actions">
+              <button type="button" disabled={busy || idx === 0} onClick={() => move(idx, -1)} aria-label={`Puja ${file}`}>
+                ↑
+              </button>
+              <button
+                type="button"
+                disabled={busy || idx === images.length - 1}
+                onClick={() => move(idx, 1)}
+                aria-label={`Baixa ${file}`}
+              >
+                ↓
+              </button>
+              <button
+                type="button"
+                disabled={busy || isRole(file, 'main')}
+                onClick={() => run(() => setImageRole(slug, 'main', file))}
+              >
+                {isRole(file, 'main') ? 'Principal' : 'Fes principal'}
+              </button>
+              <button
+                type="button"
+                disabled={busy || isRole(file, 'main2')}
+                onClick={() => run(() => setImageRole(slug, 'main2', file))}
+              >
+                {isRole(file, 'main2') ? 'De llistat' : 'Fes de llistat'}
+              </button>
+            </div>
+          </li>
+        ))}
+      </ol>
+      <label className="admin-upload">
+        Afegeix imatges (.jpg, .png)
+        <input type="file" accept=".jpg,.jpeg,.png" multiple disabled={busy} onChange={onUpload} />
+      </label>
+      {error && <p className="admin-issue-error">{error}</p>}
+    </section>
+  );
+}
+
+function WorkEditor({ works, onChanged }: { works: AdminWork[]; onChanged: (work: AdminWork) => void }) {
+  const { slug } = useParams();
+  const work = works.find((w) => w.slug === slug);
+  if (!work) return <p>No hi ha cap obra «{slug}».</p>;
+  return (
+    <div className="admin-editor">
+      <h2>
+        {work.meta.nom || work.slug} <small>pages/{work.slug}</small>
+      </h2>
+      <IssueList issues={work.issues} />
+      <MetaEditor work={work} onSaved={onChanged} />
+      <ImageManager work={work} onChanged={onChanged} />
+    </div>
+  );
+}
+
+const TEXT_FILES: { name: TextFile; label: string }[] = [
+  { name: 'artist', label: 'L’Artista (artist.json)' },
+  { name: 'taller', label: 'El Taller (taller.json)' },
+];
+
+function TextsEditor() {
+  const [name, setName] = useState<TextFile>('artist');
+  const [texts, setTexts] = useState<PageTexts | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  useEffect(() => {
+    setTexts(null);
+    setStatus(null);
+    loadTexts(name).then(setTexts, (err: Error) => setStatus(err.message));
+  }, [name]);
+
+  const update = (language: string, paragraphs: string[]) => setTexts((t) => ({ ...t, [language]: paragraphs }));
+
+  const onSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!texts) return;
+    // Empty paragraphs would render as blank gaps on the page
+    const cleaned = Object.fromEntries(
+      Object.entries(texts).map(([language, paragraphs]) => [language, (paragraphs ?? []).filter((p) => p.trim())])
+    );
+    try {
+      setTexts(await saveTexts(name, cleaned));
+      setStatus('Desat');
+    } catch (err) {
+      setStatus((err as Error).message);
+    }
+  };
+
+  return (
+    <form className="admin-editor admin-texts" onSubmit={onSubmit}>
+      <div className="admin-tabs" role="group" aria-label="Fitxer de textos">
+        {TEXT_FILES.map((file) => (
+          <button
+            key={file.name}
+            type="button"
+            className={file.name === name ? 'active' : ''}
+            onClick={() => setName(file.name)}
+          >
+            {file.label}
+          </button>
+        ))}
+      </div>
+      {texts &&
+        LANGUAGES.map((language) => {
+          const paragraphs = texts[language] ?? [];
+          return (
+            <fieldset key={language} lang={LANGUAGE_INFO[language].locale}>
+              <legend>{LANGUAGE_INFO[language].name}</legend>
+              {paragraphs.map((paragraph, idx) => (
+                <div key={idx} className="admin-paragraph">
+                  <textarea
+                    value={paragraph}
+                    rows={4}
+                    aria-label={`Paràgraf ${idx + 1}`}
+                    onChange={(e) => update(language, paragraphs.map((p, i) => (i === idx ? e.target.value : p)))}
+                  />
+                  <button type="button" onClick={() => update(language, paragraphs.filter((_, i) => i !== idx))}>
+                    Treu
+                  </button>
+                </div>
+              ))}
+              <button type="button" onClick={() => update(language, [...paragraphs, ''])}>
+                Afegeix un paràgraf
+              </button>
+            </fieldset>
+          );
+        })}
+      <div className="admin-actions">
+        <button type="submit" disabled={!texts}>
+          Desa els textos
+        </button>
+        {status && <span className="admin-status">{status}</span>}
+      </div>
+    </form>
+  );
+}
+
+/**
+ * Content admin at /admin, only routed during `vite dev`: edits the work
+ * folders and page texts through the API in `plugins/contentAdmin.ts`,
+ * which writes back to the repository files.
+ */
+export default function Admin() {
+  const navigate = useNavigate();
+  const [works, setWorks] = useState<AdminWork[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listWorks().then(setWorks, (err: Error) => setError(err.message));
+  }, []);
+
+  const replaceWork = useCallback((work: AdminWork) => {
+    setWorks((current) =>
+      current.some((w) => w.slug === work.slug)
+        ? current.map((w) => (w.slug === work.slug ? work : w))
+        : [...current, work].sort((a, b) => a.slug.localeCompare(b.slug))
+    );
+  }, []);
+
+  return (
+    <div className="admin container container-wide">
+      <header className="admin-header">
+        <h1>Administració de continguts</h1>
+        <nav className="admin-tabs">
+          <NavLink to="/admin" end className={({ isActive }) => (isActive ? 'active' : '')}>
+            Obres
+          </NavLink>
+          <NavLink to="/admin/textos" className={({ isActive }) => (isActive ? 'active' : '')}>
+            Textos
+          </NavLink>
+        </nav>
+      </header>
+      {error && <p className="admin-issue-error">{error}</p>}
+      <Routes>
+        <Route path="textos" element={<TextsEditor />} />
+        <Route
+          path="*"
+          element={
+            <div className="admin-works">
+              <WorkList
+                works={works}
+                onCreated={(work) => {
+                  replaceWork(work);
+                  navigate(`/admin/obra/${work.slug}`);
+                }}
+              />
+              <Routes>
+                <Route index element={<p className="admin-hint">Tria una obra per editar-la.</p>} />
+                <Route path="obra/:slug" element={<WorkEditor works={works} onChanged={replaceWork} />} />
+              </Routes>
+            </div>
+          }
+        />
+      </Routes>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import type { WorkMeta, WorkMetaIssue } from '../content/workMeta';
+
+/** Mount point of the JSON API served by `plugins/contentAdmin.ts` during `vite dev`. */
+export const ADMIN_API = '/__admin/api';
+
+/** A work folder as the admin API returns it. */
+export type AdminWork = {
+  slug: string;
+  meta: Partial<WorkMeta>;
+  /** Image file names in album order */
+  images: string[];
+  issues: WorkMetaIssue[];
+};
+
+/** Paragraphs per language, the shape of artist.json and taller.json. */
+export type PageTexts = Partial<Record<string, string[]>>;
+
+export type TextFile = 'artist' | 'taller';
+
+/** A failed API call; `issues` is set when the server rejected invalid metadata. */
+export class AdminApiError extends Error {
+  constructor(
+    message: string,
+    readonly issues: WorkMetaIssue[] = []
+  ) {
+    super(message);
+  }
+}
+
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(ADMIN_API + path, init);
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) throw new AdminApiError(body.error ?? `${res.status} ${res.statusText}`, body.issues);
+  return body as T;
+}
+
+const json = (method: string, body: unknown): RequestInit => ({
+  method,
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(body),
+});
+
+const workPath = (slug: string) => `/works/${encodeURIComponent(slug)}`;
+
+export const listWorks = () => request<AdminWork[]>('/works');
+
+export const createWork = (slug: string, nom: string) => request<AdminWork>('/works', json('POST', { slug, nom }));
+
+export const saveWorkMeta = (slug: string, meta: Partial<WorkMeta>) =>
+  request<AdminWork>(workPath(slug), json('PUT', { meta }));
+
+export const uploadImage = (slug: string, file: File) =>
+  request<AdminWork>(`${workPath(slug)}/images?name=${encodeURIComponent(file.name)}`, {
+    method: 'POST',
+    headers: { 'Content-Type': file.type || 'application/octet-stream' },
+    body: file,
+  });
+
+export const saveAlbumOrder = (slug: string, order: string[]) =>
+  request<AdminWork>(`${workPath(slug)}/album`, json('PUT', { order }));
+
+export const setImageRole = (slug: string, role: 'main' | 'main2', file: string) =>
+  request<AdminWork>(`${workPath(slug)}/roles`, json('PUT', { [role]: file }));
+
+export const loadTexts = (name: TextFile) => request<PageTexts>(`/texts/${name}`);
+
+export const saveTexts = (name: TextFile, texts: PageTexts) => request<PageTexts>(`/texts/${name}`, json('PUT', texts));
+
+/** URL of a work image as the dev server serves it; `version` busts the cache after a rename or upload. */
+export const imageUrl = (slug: string, file: string, version: number) =>
+  `/pages/${encodeURIComponent(slug)}/${encodeURIComponent(file)}?v=${version}`;
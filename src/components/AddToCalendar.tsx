@@ -0,0 +1,37 @@
+import React from 'react';
+import type { AgendaEvent } from '../content/agenda';
+import { icsCalendar } from '../content/ics';
+import { getWorks } from '../content/works';
+import { useTranslation } from '../i18n';
+
+type AddToCalendarProps = { event: AgendaEvent; className?: string };
+
+/**
+ * Downloads a single-event `.ics` file. Built on click rather than as a data
+ * URL in the markup, so the prerendered page needn't know the site origin.
+ */
+export default function AddToCalendar({ event, className = 'agenda-ics' }: AddToCalendarProps) {
+  const { language, t } = useTranslation();
+
+  const download = () => {
+    const works = getWorks();
+    const ics = icsCalendar([event], {
+      language,
+      origin: window.location.origin,
+      workName: (slug) => works.find((w) => w.slug === slug)?.meta.nom ?? slug,
+    });
+    const url = URL.createObjectURL(new Blob([ics], { type: 'text/calendar;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${event.id}.ics`;
+    link.click();
+    // Revoking right away can cancel the download in some browsers
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  return (
+    <button type="button" className={className} onClick={download}>
+      {t('agenda.download')}
+    </button>
+  );
+}
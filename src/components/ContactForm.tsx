@@ -0,0 +1,173 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CONTACT } from '../content/contact';
+import {
+  CONTACT_FIELDS,
+  CONTACT_LIMITS,
+  normalizeContactRequest,
+  validateContactRequest,
+  type ContactErrors,
+  type ContactField,
+  type ContactRequest,
+  type ContactResponse,
+} from '../content/contactForm';
+import { useTranslation, type MessageKey } from '../i18n';
+
+type Status = 'idle' | 'sending' | 'sent' | 'failed' | 'rateLimited';
+
+const EMPTY: ContactRequest = { name: '', email: '', organisation: '', message: '', website: '' };
+
+const LABELS: Record<ContactField, MessageKey> = {
+  name: 'contact.form.name',
+  email: 'contact.form.email',
+  organisation: 'contact.form.organisation',
+  message: 'contact.form.message',
+};
+
+const AUTOCOMPLETE: Record<ContactField, string> = {
+  name: 'name',
+  email: 'email',
+  organisation: 'organization',
+  message: 'off',
+};
+
+/** Contact form posting to `/api/contact`, with the same validation as the endpoint. */
+export default function ContactForm() {
+  const { t } = useTranslation();
+  const [values, setValues] = useState<ContactRequest>(EMPTY);
+  const [errors, setErrors] = useState<ContactErrors>({});
+  // Errors show after the first submit attempt, then update as the fields change
+  const [showErrors, setShowErrors] = useState(false);
+  const [status, setStatus] = useState<Status>('idle');
+  const formRef = useRef<HTMLFormElement>(null);
+  const statusRef = useRef<HTMLParagraphElement>(null);
+
+  // Move focus to the outcome so screen readers announce it and keyboard users aren't left on a removed button
+  useEffect(() => {
+    if (status === 'sent' || status === 'failed' || status === 'rateLimited') statusRef.current?.focus();
+  }, [status]);
+
+  const update = (field: keyof ContactRequest, value: string) => {
+    const next = { ...values, [field]: value };
+    setValues(next);
+    if (showErrors) setErrors(validateContactRequest(normalizeContactRequest(next)));
+  };
+
+  const focusFirstError = (fieldErrors: ContactErrors) => {
+    const first = CONTACT_FIELDS.find((field) => fieldErrors[field]);
+    if (first) formRef.current?.querySelector<HTMLElement>(`[name="${first}"]`)?.focus();
+  };
+
+  const onSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const request = normalizeContactRequest(values);
+    const fieldErrors = validateContactRequest(request);
+    setShowErrors(true);
+    setErrors(fieldErrors);
+    if (Object.keys(fieldErrors).length > 0) {
+      focusFirstError(fieldErrors);
+      return;
+    }
+
+    setStatus('sending');
+    let result: ContactResponse;
+    try {
+      const res = await fetch('/api/contact', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+      });
+      result = await res.json();
+    } catch {
+      result = { ok: false, error: 'failed' };
+    }
+
+    if (result.ok) {
+      setValues(EMPTY);
+      setShowErrors(false);
+      setStatus('sent');
+    } else if (result.error === 'invalid') {
+      setErrors(result.fields);
+      setStatus('idle');
+      focusFirstError(result.fields);
+    } else {
+      setStatus(result.error);
+    }
+  };
+
+  const errorText = (field: ContactField) => {
+    const error = errors[field];
+    return error && t(`contact.error.${error}`, CONTACT_LIMITS[field]);
+  };
+
+  if (status === 'sent') {
+    return (
+      <div className="contact-form contact-form-sent">
+        <p ref={statusRef} tabIndex={-1} role="status" className="contact-form-status">
+          {t('contact.form.sent')}
+        </p>
+        <button type="button" className="contact-form-submit" onClick={() => setStatus('idle')}>
+          {t('contact.form.sendAnother')}
+        </button>
+      </div>
+    );
+  }
+
+  const invalidCount = showErrors ? Object.keys(errors).length : 0;
+
+  return (
+    <form ref={formRef} className="contact-form" onSubmit={onSubmit} noValidate aria-labelledby="contact-form-title">
+      <h3 id="contact-form-title" className="contact-title">
+        {t('contact.form.title')}
+      </h3>
+      {CONTACT_FIELDS.map((field) => {
+        const error = showErrors ? errorText(field) : undefined;
+        const props = {
+          id: `contact-${field}`,
+          name: field,
+          value: values[field],
+          maxLength: CONTACT_LIMITS[field].max,
+          required: CONTACT_LIMITS[field].min > 0,
+          autoComplete: AUTOCOMPLETE[field],
+          'aria-invalid': error ? true : undefined,
+          'aria-describedby': error ? `contact-${field}-error` : undefined,
+          onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => update(field, e.target.value),
+        };
+        return (
+          <div key={field} className={`contact-form-field ${error ? 'invalid' : ''}`}>
+            <label htmlFor={props.id}>{t(LABELS[field])}</label>
+            {field === 'message' ? (
+              <textarea {...props} rows={6} />
+            ) : (
+              <input {...props} type={field === 'email' ? 'email' : 'text'} />
+            )}
+            {error && (
+              <span id={`contact-${field}-error`} className="contact-form-error">
+                {error}
+              </span>
+            )}
+          </div>
+        );
+      })}
+      {/* Honeypot: off-screen and out of the tab order, so only bots fill it in */}
+      <div className="contact-form-hp" aria-hidden="true">
+        <label htmlFor="contact-website">{t('contact.form.website')}</label>
+        <input
+          id="contact-website"
+          name="website"
+          tabIndex={-1}
+          autoComplete="off"
+          value={values.website}
+          onChange={(e) => update('website', e.target.value)}
+        />
+      </div>
+      <p ref={statusRef} tabIndex={-1} role="status" className="contact-form-status">
+        {invalidCount > 0 && t('contact.form.invalid', { count: invalidCount })}
+        {status === 'failed' && t('contact.form.failed', { email: CONTACT.email })}
+        {status === 'rateLimited' && t('contact.form.rateLimited')}
+      </p>
+      <button type="submit" className="contact-form-submit" disabled={status === 'sending'}>
+        {status === 'sending' ? t('contact.form.sending') : t('contact.form.submit')}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,82 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { getHero } from '../content/hero';
+import ResponsiveImg from './ResponsiveImg';
+import { usePrefersReducedMotion } from './usePrefersReducedMotion';
+
+/**
+ * Full-screen hero of the home page, configured in hero.json: a muted looping
+ * video over its poster, or a slideshow. With reduced motion only the first
+ * still is shown; when nothing can be shown the hero keeps its plain backdrop.
+ */
+export default function HomeHero() {
+  const { sources, stills, interval, missing } = getHero();
+  const reducedMotion = usePrefersReducedMotion();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [isReady, setIsReady] = useState(false);
+  const [videoFailed, setVideoFailed] = useState(false);
+  const [slide, setSlide] = useState(0);
+
+  useEffect(() => {
+    if (import.meta.env.DEV && missing.length > 0) {
+      console.warn(`[hero] hero.json points at missing files: ${missing.join(', ')}`);
+    }
+  }, [missing]);
+
+  const showVideo = sources.length > 0 && !reducedMotion && !videoFailed;
+  const cycling = !showVideo && !reducedMotion && stills.length > 1;
+
+  useEffect(() => {
+    if (!cycling) return;
+    const timer = window.setInterval(() => setSlide((s) => (s + 1) % stills.length), interval * 1000);
+    return () => window.clearInterval(timer);
+  }, [cycling, stills.length, interval]);
+
+  const handleLoaded = () => {
+    setIsReady(true);
+    // Ensure playback (some browsers require a play() call even with muted)
+    videoRef.current?.play().catch(() => {});
+  };
+
+  // Only the first still is rendered until the slideshow runs, so the others don't load for nothing
+  const shown = cycling ? stills : stills.slice(0, 1);
+
+  return (
+    <section className="hero">
+      <div className="hero-media" aria-hidden="true">
+        {shown.map((image, idx) => (
+          <ResponsiveImg
+            key={image.src}
+            className={`hero-still ${idx === (cycling ? slide : 0) ? 'active' : ''}`}
+            image={image}
+            alt=""
+            sizes="100vw"
+            loading={idx === 0 ? 'eager' : 'lazy'}
+          />
+        ))}
+        {showVideo ? (
+          <video
+            ref={videoRef}
+            autoPlay
+            loop
+            muted
+            playsInline
+            poster={stills[0]?.src}
+            onLoadedData={handleLoaded}
+            className={isReady ? 'video-visible' : 'video-hidden'}
+          >
+            {sources.map((source, idx) => (
+              <source
+                key={source.src}
+                src={source.src}
+                type={source.type}
+                // The video element reports a failed load on its last source
+                onError={idx === sources.length - 1 ? () => setVideoFailed(true) : undefined}
+              />
+            ))}
+          </video>
+        ) : null}
+      </div>
+      <div className="hero-overlay" />
+    </section>
+  );
+}
@@ -0,0 +1,312 @@
+import React, { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { useTranslation } from '../i18n';
+import type { ResponsiveImage } from '../content/images';
+import ResponsiveImg from './ResponsiveImg';
+import { useModalDialog } from './useModalDialog';
+
+type LightboxProps = {
+  images: ResponsiveImage[];
+  index: number;
+  onIndexChange: (index: number) => void;
+  onClose: () => void;
+  /** Alt text of the image at `index` */
+  altFor: (index: number) => string;
+};
+
+type Point = { x: number; y: number };
+
+const MIN_SCALE = 1;
+const MAX_SCALE = 5;
+const DOUBLE_TAP_SCALE = 2.5;
+// Horizontal travel (px) that turns a drag on an unzoomed image into a swipe
+const SWIPE_THRESHOLD = 50;
+
+const clampScale = (s: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, s));
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Fullscreen image viewer with wheel/pinch zoom, drag to pan, swipe between
+ * images and a thumbnail strip. The neighbouring images are preloaded.
+ */
+export default function Lightbox({ images, index, onIndexChange, onClose, altFor }: LightboxProps) {
+  const { t } = useTranslation();
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const stageRef = useRef<HTMLDivElement>(null);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const thumbsRef = useRef<HTMLDivElement>(null);
+  const [scale, setScale] = useState(1);
+  const [offset, setOffset] = useState<Point>({ x: 0, y: 0 });
+  const [isDragging, setIsDragging] = useState(false);
+  const pointers = useRef(new Map<number, Point>());
+  const gesture = useRef<{ start: Point; startOffset: Point; pinchDistance?: number; pinchScale?: number } | null>(
+    null
+  );
+  const count = images.length;
+
+  const go = useCallback(
+    (delta: number) => {
+      if (count > 1) onIndexChange((((index + delta) % count) + count) % count);
+    },
+    [count, index, onIndexChange]
+  );
+
+  // Keeps the zoomed image covering the stage instead of revealing empty space
+  const clampOffset = useCallback((next: Point, s: number): Point => {
+    const stage = stageRef.current;
+    const frame = frameRef.current;
+    if (!stage || !frame) return next;
+    const maxX = Math.max(0, (frame.offsetWidth * s - stage.clientWidth) / 2);
+    const maxY = Math.max(0, (frame.offsetHeight * s - stage.clientHeight) / 2);
+    return { x: Math.min(maxX, Math.max(-maxX, next.x)), y: Math.min(maxY, Math.max(-maxY, next.y)) };
+  }, []);
+
+  // Zooms keeping the point under `focus` (relative to the stage centre) in place
+  const zoomTo = useCallback(
+    (nextScale: number, focus: Point = { x: 0, y: 0 }) => {
+      const s = clampScale(nextScale);
+      if (s === MIN_SCALE) {
+        setScale(s);
+        setOffset({ x: 0, y: 0 });
+        return;
+      }
+      const ratio = s / scale;
+      setScale(s);
+      setOffset(
+        clampOffset({ x: focus.x - (focus.x - offset.x) * ratio, y: focus.y - (focus.y - offset.y) * ratio }, s)
+      );
+    },
+    [scale, offset, clampOffset]
+  );
+
+  const toStagePoint = (clientX: number, clientY: number): Point => {
+    const rect = stageRef.current!.getBoundingClientRect();
+    return { x: clientX - rect.left - rect.width / 2, y: clientY - rect.top - rect.height / 2 };
+  };
+
+  useEffect(() => {
+    setScale(1);
+    setOffset({ x: 0, y: 0 });
+  }, [index]);
+
+  useModalDialog(dialogRef, true);
+
+  useEffect(() => {
+    const { overflow } = document.body.style;
+    document.body.style.overflow = 'hidden';
+    return () => {
+      document.body.style.overflow = overflow;
+    };
+  }, []);
+
+  useLayoutEffect(() => {
+    const thumb = thumbsRef.current?.children[index] as HTMLElement | undefined;
+    thumb?.scrollIntoView?.({ block: 'nearest', inline: 'center' });
+  }, [index]);
+
+  // React's onWheel is passive, so the listener is attached by hand to be able to preventDefault
+  useEffect(() => {
+    const stage = stageRef.current;
+    if (!stage) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      zoomTo(scale * Math.exp(-e.deltaY * 0.002), toStagePoint(e.clientX, e.clientY));
+    };
+    stage.addEventListener('wheel', onWheel, { passive: false });
+    return () => stage.removeEventListener('wheel', onWheel);
+  }, [scale, zoomTo]);
+
+  // Handled on the dialog itself and not propagated, so the page behind doesn't react to the same keys
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    switch (e.key) {
+      case 'Escape':
+        onClose();
+        break;
+      case 'ArrowRight':
+        go(1);
+        break;
+      case 'ArrowLeft':
+        go(-1);
+        break;
+      case '+':
+      case '=':
+        zoomTo(scale * 1.5);
+        break;
+      case '-':
+        zoomTo(scale / 1.5);
+        break;
+      case '0':
+        zoomTo(1);
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
+  const onPointerDown = (e: React.PointerEvent) => {
+    if (e.pointerType === 'mouse' && e.button !== 0) return;
+    // Capturing the pointer would retarget the click away from the prev/next buttons
+    if ((e.target as HTMLElement).closest('button')) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    const points = Array.from(pointers.current.values());
+    if (points.length === 2) {
+      gesture.current = {
+        start: points[0],
+        startOffset: offset,
+        pinchDistance: distance(points[0], points[1]),
+        pinchScale: scale,
+      };
+    } else if (points.length === 1) {
+      gesture.current = { start: points[0], startOffset: offset };
+      setIsDragging(true);
+    }
+  };
+
+  const onPointerMove = (e: React.PointerEvent) => {
+    if (!pointers.current.has(e.pointerId) || !gesture.current) return;
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    const points = Array.from(pointers.current.values());
+    const g = gesture.current;
+    if (points.length === 2 && g.pinchDistance && g.pinchScale) {
+      const centre = toStagePoint((points[0].x + points[1].x) / 2, (points[0].y + points[1].y) / 2);
+      zoomTo((g.pinchScale * distance(points[0], points[1])) / g.pinchDistance, centre);
+    } else if (points.length === 1) {
+      const dx = points[0].x - g.start.x;
+      const dy = points[0].y - g.start.y;
+      // Unzoomed, the image follows the finger horizontally as swipe feedback
+      if (scale === 1) setOffset({ x: dx, y: 0 });
+      else setOffset(clampOffset({ x: g.startOffset.x + dx, y: g.startOffset.y + dy }, scale));
+    }
+  };
+
+  const onPointerUp = (e: React.PointerEvent) => {
+    const end = pointers.current.get(e.pointerId);
+    pointers.current.delete(e.pointerId);
+    const g = gesture.current;
+    if (pointers.current.size > 0) {
+      // Lifting one finger of a pinch continues as a pan from the remaining one
+      const [rest] = pointers.current.values();
+      gesture.current = { start: rest, startOffset: offset };
+      return;
+    }
+    gesture.current = null;
+    setIsDragging(false);
+    if (scale !== 1 || !g || !end) return;
+    const dx = end.x - g.start.x;
+    const dy = end.y - g.start.y;
+    setOffset({ x: 0, y: 0 });
+    if (Math.abs(dx) > SWIPE_THRESHOLD && Math.abs(dx) > Math.abs(dy)) go(dx < 0 ? 1 : -1);
+  };
+
+  const onDoubleClick = (e: React.MouseEvent) => {
+    zoomTo(scale > 1 ? 1 : DOUBLE_TAP_SCALE, toStagePoint(e.clientX, e.clientY));
+  };
+
+  const image = images[index];
+  if (!image) return null;
+  const neighbours = count > 1 ? Array.from(new Set([(index + 1) % count, (index - 1 + count) % count])) : [];
+
+  return createPortal(
+    <div
+      ref={dialogRef}
+      className="lightbox"
+      role="dialog"
+      aria-modal="true"
+      aria-label={t('lightbox.label')}
+      tabIndex={-1}
+      onKeyDown={onKeyDown}
+    >
+      <div className="lightbox-bar">
+        <div className="lightbox-counter" aria-live="polite">
+          {t('image.position', { index: index + 1, count })}
+        </div>
+        <div className="lightbox-actions">
+          <button
+            type="button"
+            className="lightbox-btn"
+            aria-label={t('lightbox.zoomOut')}
+            onClick={() => zoomTo(scale / 1.5)}
+            disabled={scale <= MIN_SCALE}
+          >
+            −
+          </button>
+          <button
+            type="button"
+            className="lightbox-btn"
+            aria-label={t('lightbox.zoomIn')}
+            onClick={() => zoomTo(scale * 1.5)}
+            disabled={scale >= MAX_SCALE}
+          >
+            +
+          </button>
+          <button type="button" className="lightbox-btn" aria-label={t('lightbox.close')} onClick={onClose}>
+            ×
+          </button>
+        </div>
+      </div>
+
+      <div
+        ref={stageRef}
+        className={`lightbox-stage ${scale > 1 ? 'zoomed' : ''} ${isDragging ? 'dragging' : ''}`}
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={onPointerUp}
+        onPointerCancel={onPointerUp}
+        onDoubleClick={onDoubleClick}
+      >
+        <div
+          ref={frameRef}
+          className="lightbox-frame"
+          style={{ transform: `translate(${offset.x}px, ${offset.y}px) scale(${scale})` }}
+        >
+          <ResponsiveImg
+            key={image.src}
+            className="lightbox-img"
+            image={image}
+            alt={altFor(index)}
+            sizes="100vw"
+            loading="eager"
+          />
+        </div>
+        {count > 1 ? (
+          <>
+            <button type="button" className="lightbox-nav prev" aria-label={t('lightbox.previous')} onClick={() => go(-1)}>
+              ‹
+            </button>
+            <button type="button" className="lightbox-nav next" aria-label={t('lightbox.next')} onClick={() => go(1)}>
+              ›
+            </button>
+          </>
+        ) : null}
+      </div>
+
+      {count > 1 ? (
+        <div ref={thumbsRef} className="lightbox-thumbs" role="group" aria-label={t('lightbox.thumbnails')}>
+          {images.map((thumb, i) => (
+            <button
+              key={thumb.src}
+              type="button"
+              className={`lightbox-thumb ${i === index ? 'active' : ''}`}
+              aria-label={altFor(i)}
+              aria-current={i === index}
+              onClick={() => onIndexChange(i)}
+            >
+              <ResponsiveImg image={thumb} alt="" sizes="80px" />
+            </button>
+          ))}
+        </div>
+      ) : null}
+
+      {/* Neighbours load at full size in the background so paging feels instant */}
+      <div className="lightbox-preload" aria-hidden="true">
+        {neighbours.map((i) => (
+          <ResponsiveImg key={images[i].src} image={images[i]} alt="" sizes="100vw" loading="eager" />
+        ))}
+      </div>
+    </div>,
+    document.body
+  );
+}
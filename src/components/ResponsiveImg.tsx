@@ -0,0 +1,46 @@
+import React, { useState } from 'react';
+import type { ResponsiveImage } from '../content/images';
+
+type ResponsiveImgProps = {
+  image: ResponsiveImage;
+  alt: string;
+  /** `sizes` attribute describing the rendered width, e.g. "(max-width: 600px) 100vw, 360px" */
+  sizes: string;
+  className?: string;
+  loading?: 'lazy' | 'eager';
+  style?: React.CSSProperties;
+};
+
+/**
+ * `<picture>` with AVIF/WebP sources, intrinsic width/height to reserve space
+ * and the blurred placeholder as a background until the image has loaded.
+ */
+export default function ResponsiveImg({ image, alt, sizes, className, loading = 'lazy', style }: ResponsiveImgProps) {
+  // Tracked per src so a reused element (e.g. the carousel) shows the placeholder again
+  const [loadedSrc, setLoadedSrc] = useState<string | null>(null);
+  const isLoaded = loadedSrc === image.src;
+
+  return (
+    <picture className="responsive-picture">
+      {image.sources.map((s) => (
+        <source key={s.type} type={s.type} srcSet={s.srcset} sizes={sizes} />
+      ))}
+      <img
+        className={className}
+        src={image.src}
+        width={image.width}
+        height={image.height}
+        alt={alt}
+        sizes={sizes}
+        loading={loading}
+        decoding="async"
+        onLoad={() => setLoadedSrc(image.src)}
+        style={
+          image.placeholder && !isLoaded
+            ? { ...style, backgroundImage: `url(${image.placeholder})`, backgroundSize: 'cover', backgroundPosition: 'center' }
+            : style
+        }
+      />
+    </picture>
+  );
+}
@@ -0,0 +1,255 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import type { LayerGroup, LeafletKeyboardEvent, Map as LeafletMap, Popup } from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import eventLocations from 'virtual:event-locations';
+import workLocations from 'virtual:work-locations';
+import { eventTitle, formatEventDates, type AgendaEvent } from '../content/agenda';
+import { smallestSrc } from '../content/images';
+import type { WorkLocation } from '../content/workMeta';
+import type { WorkItem } from '../content/works';
+import { useTranslation } from '../i18n';
+import ResponsiveImg from './ResponsiveImg';
+
+type WorkMapProps = {
+  works: WorkItem[];
+  onSelect: (slug: string) => void;
+  /** Show these events instead: each taking part work of `works`, placed where the event is */
+  events?: AgendaEvent[];
+};
+
+type Located = { work: WorkItem; position: WorkLocation; event?: AgendaEvent };
+type Cluster = { items: Located[]; position: WorkLocation };
+
+// Markers closer than this on screen merge into one cluster
+const CLUSTER_RADIUS_PX = 56;
+
+/**
+ * Greedy screen-space clustering: each work joins the first cluster whose
+ * anchor is within the radius at the current zoom, otherwise starts a new one.
+ */
+function clusterWorks(map: LeafletMap, located: Located[]): Cluster[] {
+  const zoom = map.getZoom();
+  const clusters: (Cluster & { x: number; y: number })[] = [];
+  located.forEach((item) => {
+    const { x, y } = map.project([item.position.lat, item.position.lng], zoom);
+    const near = clusters.find((c) => Math.hypot(c.x - x, c.y - y) < CLUSTER_RADIUS_PX);
+    if (near) near.items.push(item);
+    else clusters.push({ items: [item], position: item.position, x, y });
+  });
+  return clusters;
+}
+
+// Several works in one spot (five in Solsona) never split by zooming; they open a list instead
+const samePlace = (items: Located[]) =>
+  items.every((i) => i.position.lat === items[0].position.lat && i.position.lng === items[0].position.lng);
+
+// Marker contents are built with DOM calls rather than HTML strings, so work names are never parsed as markup
+function markerElement(cluster: Cluster): HTMLElement {
+  const root = document.createElement('span');
+  root.className = cluster.items.length > 1 ? 'obra-marker-cluster' : 'obra-marker-work';
+  const cover = cluster.items.find((i) => i.work.mainImage)?.work.mainImage;
+  if (cover) {
+    const img = document.createElement('img');
+    img.src = smallestSrc(cover);
+    img.alt = '';
+    root.appendChild(img);
+  }
+  if (cluster.items.length > 1) {
+    const count = document.createElement('span');
+    count.className = 'obra-marker-count';
+    count.textContent = String(cluster.items.length);
+    root.appendChild(count);
+  }
+  return root;
+}
+
+// Works placed on the map: at their own position, or at each listed event they take part in
+function locate(works: WorkItem[], events?: AgendaEvent[]): Located[] {
+  if (!events) {
+    return works.filter((w) => workLocations[w.slug]).map((w) => ({ work: w, position: workLocations[w.slug] }));
+  }
+  return events.flatMap((event) =>
+    works
+      .filter((w) => event.works.includes(w.slug))
+      .map((w) => ({ work: w, event, position: eventLocations[event.id] ?? workLocations[w.slug] }))
+      .filter((item) => item.position)
+  );
+}
+
+function MapCard({ items, onSelect }: { items: Located[]; onSelect: (slug: string) => void }) {
+  const { language, t } = useTranslation();
+  return (
+    <ul className={`obra-map-card ${items.length > 1 ? 'multiple' : ''}`}>
+      {items.map(({ work, event }) => (
+        <li key={`${event?.id ?? ''}/${work.slug}`} className="obra-map-card-item">
+          {work.main2Image || work.mainImage ? (
+            <ResponsiveImg
+              className="obra-map-card-img"
+              image={(work.main2Image || work.mainImage)!}
+              alt=""
+              sizes={items.length > 1 ? '56px' : '240px'}
+            />
+          ) : (
+            <span className="obra-map-card-img placeholder" />
+          )}
+          <span className="obra-map-card-title">{work.meta.nom}</span>
+          <span className="obra-map-card-meta">
+            {event
+              ? `${eventTitle(event, language)} · ${formatEventDates(event, language)}`
+              : [work.meta.city, work.meta.year].filter(Boolean).join(' · ')}
+          </span>
+          <button type="button" className="obra-map-card-open" onClick={() => onSelect(work.slug)}>
+            {t('work.map.open')}
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * Leaflet map of the works with a position, clustered by screen distance so
+ * nearby towns split apart as you zoom in. Markers are focusable buttons;
+ * the popup card is a React portal into the Leaflet popup.
+ */
+export default function WorkMap({ works, onSelect, events }: WorkMapProps) {
+  const { t } = useTranslation();
+  const located = useMemo(() => locate(works, events), [works, events]);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<LeafletMap | null>(null);
+  const layerRef = useRef<LayerGroup | null>(null);
+  const popupRef = useRef<Popup | null>(null);
+  // Marker that opened the popup, to give focus back when it closes
+  const openerRef = useRef<HTMLElement | null>(null);
+  const [leaflet, setLeaflet] = useState<typeof import('leaflet') | null>(null);
+  const [zoom, setZoom] = useState<number | null>(null);
+  const [popupElement, setPopupElement] = useState<HTMLElement | null>(null);
+  const [popupItems, setPopupItems] = useState<Located[]>([]);
+  const [focusPopup, setFocusPopup] = useState(false);
+
+  // Leaflet is loaded on demand: it touches `window` when imported, which would break prerendering
+  useEffect(() => {
+    let cancelled = false;
+    let observer: ResizeObserver | null = null;
+    import('leaflet').then(({ default: L }) => {
+      const container = containerRef.current;
+      if (cancelled || mapRef.current || !container) return;
+      const map = L.map(container).setView([41.7, 1.8], 7);
+      L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
+        attribution: '&copy; OpenStreetMap contributors',
+        maxZoom: 19,
+      }).addTo(map);
+      mapRef.current = map;
+      layerRef.current = L.layerGroup().addTo(map);
+
+      const element = document.createElement('div');
+      element.addEventListener('keydown', (e) => {
+        if (e.key === 'Escape') map.closePopup();
+      });
+      popupRef.current = L.popup({ className: 'obra-map-popup', minWidth: 220, maxWidth: 280 }).setContent(element);
+      map.on('popupclose', () => {
+        // Only steal focus back when it was inside the popup (keyboard use), not after a click on the map
+        if (element.contains(document.activeElement) || document.activeElement === document.body) {
+          openerRef.current?.focus({ preventScroll: true });
+        }
+      });
+      map.on('zoomend', () => setZoom(map.getZoom()));
+
+      // The container can change size without a window resize (view switch, filters panel), so watch it
+      observer = new ResizeObserver(() => map.invalidateSize());
+      observer.observe(container);
+
+      setPopupElement(element);
+      setLeaflet(L);
+    });
+    // Positions now come from the build; drop the cache of the old runtime geocoder
+    try {
+      localStorage.removeItem('obra-geo-cache-v2');
+    } catch {}
+    return () => {
+      cancelled = true;
+      observer?.disconnect();
+      if (mapRef.current) {
+        mapRef.current.remove();
+        mapRef.current = null;
+      }
+    };
+  }, []);
+
+  // Frame what is shown whenever the filters or the events change
+  useEffect(() => {
+    const map = mapRef.current;
+    const L = leaflet;
+    if (!map || !L) return;
+    const bounds = L.latLngBounds(located.map((i) => [i.position.lat, i.position.lng]));
+    if (bounds.isValid()) map.fitBounds(bounds, { padding: [60, 60], maxZoom: 14 });
+    map.closePopup();
+  }, [located, leaflet]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    const layer = layerRef.current;
+    const popup = popupRef.current;
+    const L = leaflet;
+    if (!map || !layer || !popup || !L) return;
+
+    layer.clearLayers();
+    clusterWorks(map, located).forEach((cluster) => {
+      const names = cluster.items.map((i) => i.work.meta.nom);
+      const marker = L.marker([cluster.position.lat, cluster.position.lng], {
+        icon: L.divIcon({
+          html: markerElement(cluster),
+          className: 'obra-marker',
+          iconSize: cluster.items.length > 1 ? [64, 64] : [56, 56],
+        }),
+        title: names.join(', '),
+        riseOnHover: true,
+      });
+
+      const activate = (fromKeyboard: boolean) => {
+        openerRef.current = marker.getElement() ?? null;
+        if (cluster.items.length > 1 && !samePlace(cluster.items) && map.getZoom() < map.getMaxZoom()) {
+          map.flyToBounds(
+            L.latLngBounds(cluster.items.map((i) => [i.position.lat, i.position.lng])),
+            { padding: [80, 80] }
+          );
+          return;
+        }
+        setPopupItems(cluster.items);
+        setFocusPopup(fromKeyboard);
+        popup.setLatLng([cluster.position.lat, cluster.position.lng]).openOn(map);
+      };
+      marker.on('click', () => activate(false));
+      // Leaflet makes markers focusable buttons; Enter and Space should act like a click
+      marker.on('keypress', (e: LeafletKeyboardEvent) => {
+        if (e.originalEvent.key === 'Enter' || e.originalEvent.key === ' ') {
+          e.originalEvent.preventDefault();
+          activate(true);
+        }
+      });
+      marker.addTo(layer);
+      marker
+        .getElement()
+        ?.setAttribute(
+          'aria-label',
+          cluster.items.length > 1 ? t('work.map.cluster', { count: names.length, names: names.join(', ') }) : names[0]
+        );
+    });
+  }, [located, leaflet, zoom, t]);
+
+  // The card renders after the popup opened empty: let Leaflet measure it again, then move focus in for keyboard users
+  useEffect(() => {
+    const popup = popupRef.current;
+    if (!popup?.isOpen()) return;
+    popup.update();
+    if (focusPopup) popupElement?.querySelector<HTMLElement>('button')?.focus({ preventScroll: true });
+  }, [popupItems, focusPopup, popupElement]);
+
+  return (
+    <>
+      <div ref={containerRef} className="obra-map" role="region" aria-label={t('work.map.label')} />
+      {popupElement && createPortal(<MapCard items={popupItems} onSelect={onSelect} />, popupElement)}
+    </>
+  );
+}
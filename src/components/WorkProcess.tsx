@@ -0,0 +1,160 @@
+import React, { useMemo, useState } from 'react';
+import { processComparisons, type ProcessComparison, type ProcessStep } from '../content/process';
+import { useTranslation } from '../i18n';
+import ResponsiveImg from './ResponsiveImg';
+
+type WorkProcessProps = {
+  /** Work name, for the image descriptions */
+  name: string;
+  steps: ProcessStep[];
+};
+
+const SIZES = '(max-width: 768px) 100vw, 60vw';
+
+function CompareSlider({ name, comparisons }: { name: string; comparisons: ProcessComparison[] }) {
+  const { t } = useTranslation();
+  const [angle, setAngle] = useState(comparisons[0].angle);
+  const comparison = comparisons.find((c) => c.angle === angle) ?? comparisons[0];
+  const { shots } = comparison;
+  // Earliest and latest stage of the angle unless picked otherwise
+  const [picked, setPicked] = useState({ before: shots[0].stage, after: shots[shots.length - 1].stage });
+  const [position, setPosition] = useState(50);
+  const before = shots.find((s) => s.stage === picked.before) ?? shots[0];
+  const after = shots.find((s) => s.stage === picked.after) ?? shots[shots.length - 1];
+  const stageName = (stage: ProcessStep['stage']) => t(`work.process.stage.${stage}`);
+
+  const changeAngle = (value: string) => {
+    const next = comparisons.find((c) => c.angle === value)!;
+    setAngle(value);
+    setPicked({ before: next.shots[0].stage, after: next.shots[next.shots.length - 1].stage });
+  };
+
+  const stageSelect = (role: 'before' | 'after', other: ProcessStep['stage']) => (
+    <label className="obra-filter-field">
+      <span>{t(`work.process.${role}`)}</span>
+      <select
+        value={picked[role]}
+        onChange={(e) => setPicked((p) => ({ ...p, [role]: e.target.value as ProcessStep['stage'] }))}
+      >
+        {shots.map((s) => (
+          <option key={s.stage} value={s.stage} disabled={s.stage === other}>
+            {stageName(s.stage)}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className="obra-compare">
+      <h4 className="obra-compare-title">{t('work.process.compare')}</h4>
+      {comparisons.length > 1 || shots.length > 2 ? (
+        <div className="obra-compare-controls">
+          {comparisons.length > 1 ? (
+            <label className="obra-filter-field">
+              <span>{t('work.process.angle')}</span>
+              <select value={angle} onChange={(e) => changeAngle(e.target.value)}>
+                {comparisons.map((c) => (
+                  <option key={c.angle} value={c.angle}>
+                    {c.angle}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ) : null}
+          {shots.length > 2 ? (
+            <>
+              {stageSelect('before', after.stage)}
+              {stageSelect('after', before.stage)}
+            </>
+          ) : null}
+        </div>
+      ) : null}
+      <div
+        className="obra-compare-frame"
+        style={{ aspectRatio: `${after.image.width} / ${after.image.height}` }}
+      >
+        <ResponsiveImg
+          className="obra-compare-img"
+          image={after.image}
+          alt={t('work.process.imageAlt', { name, stage: stageName(after.stage) })}
+          sizes={SIZES}
+        />
+        {/* The earlier stage is laid on top and clipped at the handle */}
+        <div className="obra-compare-before" style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }}>
+          <ResponsiveImg
+            className="obra-compare-img"
+            image={before.image}
+            alt={t('work.process.imageAlt', { name, stage: stageName(before.stage) })}
+            sizes={SIZES}
+          />
+        </div>
+        <span className="obra-compare-handle" style={{ left: `${position}%` }} aria-hidden="true" />
+        <span className="obra-compare-label before" aria-hidden="true">{stageName(before.stage)}</span>
+        <span className="obra-compare-label after" aria-hidden="true">{stageName(after.stage)}</span>
+        {/* A transparent range over the whole frame: dragging anywhere moves the handle, and arrow keys work natively */}
+        <input
+          type="range"
+          className="obra-compare-range"
+          min={0}
+          max={100}
+          value={position}
+          onChange={(e) => setPosition(Number(e.target.value))}
+          aria-label={t('work.process.slider', { before: stageName(before.stage), after: stageName(after.stage) })}
+          aria-valuetext={`${position}%`}
+        />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Making-of of a work: its process stages as numbered steps, the images of
+ * the current step, and a before/after slider for angles shot in more than
+ * one stage. Renders nothing for works without process stages.
+ */
+export default function WorkProcess({ name, steps }: WorkProcessProps) {
+  const { t } = useTranslation();
+  const [active, setActive] = useState(0);
+  const comparisons = useMemo(() => processComparisons(steps), [steps]);
+  if (steps.length === 0) return null;
+  const step = steps[Math.min(active, steps.length - 1)];
+  const stageName = t(`work.process.stage.${step.stage}`);
+
+  return (
+    <section className="obra-sheet obra-process" aria-labelledby="obra-process-title">
+      <h3 id="obra-process-title" className="obra-sheet-title">
+        {t('work.process.title')}
+      </h3>
+      <ol className="obra-process-steps">
+        {steps.map((s, i) => (
+          <li key={s.stage}>
+            <button
+              type="button"
+              className={`obra-process-step ${s === step ? 'active' : ''} ${i < active ? 'done' : ''}`}
+              aria-current={s === step ? 'step' : undefined}
+              onClick={() => setActive(i)}
+            >
+              <span className="obra-process-step-number" aria-hidden="true">
+                {i + 1}
+              </span>
+              {t(`work.process.stage.${s.stage}`)}
+            </button>
+          </li>
+        ))}
+      </ol>
+      <div className="obra-process-shots">
+        {step.shots.map((shot) => (
+          <ResponsiveImg
+            key={shot.file}
+            className="obra-process-img"
+            image={shot.image}
+            alt={t('work.process.imageAlt', { name, stage: stageName })}
+            sizes={step.shots.length > 1 ? '(max-width: 768px) 50vw, 30vw' : SIZES}
+          />
+        ))}
+      </div>
+      {comparisons.length > 0 ? <CompareSlider name={name} comparisons={comparisons} /> : null}
+    </section>
+  );
+}
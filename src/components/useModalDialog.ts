@@ -0,0 +1,62 @@
+import { useEffect, type RefObject } from 'react';
+
+const FOCUSABLE =
+  'a[href], area[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+// Attribute for elements outside the dialog that must stay clickable, e.g. a click-to-close backdrop
+const KEEP_INTERACTIVE = 'data-modal-keep';
+
+/**
+ * Modal behaviour for an always-mounted or conditionally rendered dialog
+ * element while `active`: everything outside it becomes inert, focus moves
+ * into it, Tab cycles within it and focus returns to the opener afterwards.
+ * The dialog element itself should have `tabIndex={-1}`; a backdrop that
+ * closes it on click needs `data-modal-keep`.
+ */
+export function useModalDialog(ref: RefObject<HTMLElement | null>, active: boolean) {
+  useEffect(() => {
+    const dialog = ref.current;
+    if (!active || !dialog) return;
+    const opener = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+
+    // Siblings of the dialog and of each of its ancestors, i.e. the rest of the page
+    const inerted: HTMLElement[] = [];
+    for (let node: HTMLElement = dialog; node.parentElement && node !== document.body; node = node.parentElement) {
+      Array.from(node.parentElement.children).forEach((sibling) => {
+        if (sibling === node || !(sibling instanceof HTMLElement)) return;
+        if (sibling.inert || sibling.hasAttribute(KEEP_INTERACTIVE)) return;
+        sibling.inert = true;
+        inerted.push(sibling);
+      });
+    }
+
+    dialog.focus();
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Tab') return;
+      const focusable = Array.from(dialog.querySelectorAll<HTMLElement>(FOCUSABLE)).filter(
+        (el) => el.offsetParent !== null || el === document.activeElement
+      );
+      if (focusable.length === 0) {
+        e.preventDefault();
+        return;
+      }
+      const first = focusable[0];
+      const last = focusable[focusable.length - 1];
+      if (e.shiftKey && (document.activeElement === first || document.activeElement === dialog)) {
+        e.preventDefault();
+        last.focus();
+      } else if (!e.shiftKey && document.activeElement === last) {
+        e.preventDefault();
+        first.focus();
+      }
+    };
+    dialog.addEventListener('keydown', onKeyDown);
+
+    return () => {
+      dialog.removeEventListener('keydown', onKeyDown);
+      inerted.forEach((el) => (el.inert = false));
+      if (opener?.isConnected) opener.focus();
+    };
+  }, [ref, active]);
+}
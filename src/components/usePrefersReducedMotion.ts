@@ -0,0 +1,21 @@
+import { useEffect, useState } from 'react';
+
+const QUERY = '(prefers-reduced-motion: reduce)';
+
+/**
+ * Whether the visitor asked for reduced motion, following changes of the
+ * setting. True until mounted, so prerendered pages never start with motion.
+ */
+export function usePrefersReducedMotion(): boolean {
+  const [reduced, setReduced] = useState(true);
+
+  useEffect(() => {
+    const query = window.matchMedia(QUERY);
+    const update = () => setReduced(query.matches);
+    update();
+    query.addEventListener('change', update);
+    return () => query.removeEventListener('change', update);
+  }, []);
+
+  return reduced;
+}
@@ -0,0 +1,139 @@
+import { useEffect, useState } from 'react';
+import agenda from '../../agenda.json';
+import { LANGUAGE_INFO, localized, type Language } from '../i18n/languages';
+
+/**
+ * An appearance of one or more figures, as listed in agenda.json. Dates are
+ * `YYYY-MM-DD` for whole days or `YYYY-MM-DDTHH:mm` in the festival's local
+ * (Catalan) time; `end` is the last day, or the end time, and may be omitted.
+ * Only list appearances the festival has confirmed, for example:
+ *
+ *     {
+ *         "id": "festa-major-solsona-2027",
+ *         "title": { "catala": "Festa Major de Solsona", "english": "Solsona Festa Major" },
+ *         "start": "2027-09-08",
+ *         "end": "2027-09-11",
+ *         "city": "Solsona",
+ *         "place": "Plaça Major",
+ *         "works": ["lleo"],
+ *         "url": "https://…"
+ *     }
+ *
+ * `id` also names the event's anchor on the Agenda page (/ca/agenda#<id>).
+ */
+export type AgendaEvent = {
+  id: string;
+  title: Partial<Record<Language, string>>;
+  start: string;
+  end?: string;
+  city: string;
+  /** Square, street or venue within the town */
+  place?: string;
+  /** Explicit map position; otherwise the gazetteer entry for `city` */
+  lat?: number;
+  lng?: number;
+  /** Slugs of the works taking part */
+  works: string[];
+  /** The festival's own programme page */
+  url?: string;
+};
+
+/** Time zone of every event's local times. */
+export const AGENDA_TIME_ZONE = 'Europe/Madrid';
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/;
+
+/** `YYYY-MM-DD` of `date` in the local calendar. */
+export const isoDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/**
+ * The day upcoming and past events are split on. Starts at the build date, so
+ * the client's first render matches the prerendered markup, and moves to the
+ * visitor's today once mounted.
+ */
+export function useAgendaToday(): Date {
+  // Noon, so the build date is the same calendar day in every time zone
+  const [today, setToday] = useState(() => new Date(`${__BUILD_DATE__}T12:00`));
+  useEffect(() => setToday(new Date()), []);
+  return today;
+}
+
+let cachedEvents: AgendaEvent[] | null = null;
+
+/** Every event in agenda.json, earliest first. */
+export function getEvents(): AgendaEvent[] {
+  if (!cachedEvents) cachedEvents = [...(agenda.events as AgendaEvent[])].sort((a, b) => a.start.localeCompare(b.start));
+  return cachedEvents;
+}
+
+export const eventTitle = (event: AgendaEvent, language: Language) => localized(language, event.title) ?? event.id;
+
+/** Whether the event is given as whole days rather than with times. */
+export const isAllDay = (event: AgendaEvent) => DATE.test(event.start);
+
+const firstDay = (event: AgendaEvent) => event.start.slice(0, 10);
+const lastDay = (event: AgendaEvent) => (event.end ?? event.start).slice(0, 10);
+
+/** Events whose last day is today or later, earliest first. */
+export function upcomingEvents(events: AgendaEvent[], now: Date = new Date()): AgendaEvent[] {
+  const today = isoDate(now);
+  return events.filter((e) => lastDay(e) >= today);
+}
+
+/** Events that are over, latest first. */
+export function pastEvents(events: AgendaEvent[], now: Date = new Date()): AgendaEvent[] {
+  const today = isoDate(now);
+  return events.filter((e) => lastDay(e) < today).reverse();
+}
+
+/** Upcoming events a work takes part in. */
+export const upcomingEventsForWork = (events: AgendaEvent[], slug: string, now: Date = new Date()) =>
+  upcomingEvents(events, now).filter((e) => e.works.includes(slug));
+
+/** Events with at least one day between today and the same day next month. */
+export function eventsInNextMonth(events: AgendaEvent[], now: Date = new Date()): AgendaEvent[] {
+  const until = isoDate(new Date(now.getFullYear(), now.getMonth() + 1, now.getDate()));
+  return upcomingEvents(events, now).filter((e) => firstDay(e) <= until);
+}
+
+// Dates and times as written, read as local wall-clock values so formatting doesn't shift them
+const wallClock = (value: string) => new Date(DATE_TIME.test(value) ? `${value}:00` : `${value}T12:00:00`);
+
+/** "28 de maig de 2027", "28 de maig de 2027, 18:00–21:00" or a range of days, in `language`. */
+export function formatEventDates(event: AgendaEvent, language: Language): string {
+  const { locale } = LANGUAGE_INFO[language];
+  const day = new Intl.DateTimeFormat(locale, { day: 'numeric', month: 'long', year: 'numeric' });
+  const time = new Intl.DateTimeFormat(locale, { hour: '2-digit', minute: '2-digit' });
+  const start = wallClock(event.start);
+  const end = event.end ? wallClock(event.end) : null;
+  const sameDay = !end || firstDay(event) === lastDay(event);
+
+  if (isAllDay(event)) return sameDay ? day.format(start) : `${day.format(start)} – ${day.format(end!)}`;
+  if (sameDay) return `${day.format(start)}, ${time.format(start)}${end ? `–${time.format(end)}` : ''}`;
+  return `${day.format(start)}, ${time.format(start)} – ${day.format(end!)}, ${time.format(end!)}`;
+}
+
+/** Problems in agenda.json: malformed dates, unknown work slugs, duplicate ids. */
+export function validateAgenda(events: AgendaEvent[], slugs: string[]): string[] {
+  const problems: string[] = [];
+  const seen = new Set<string>();
+  events.forEach((event) => {
+    const label = `"${event.id}"`;
+    if (seen.has(event.id)) problems.push(`${label} is used by more than one event`);
+    seen.add(event.id);
+    if (!localized('catala', event.title)) problems.push(`${label} has no title`);
+    if (!event.city) problems.push(`${label} has no "city"`);
+    const format = DATE.test(event.start) ? DATE : DATE_TIME.test(event.start) ? DATE_TIME : null;
+    if (!format || Number.isNaN(wallClock(event.start).getTime())) {
+      problems.push(`${label}: "start" should be YYYY-MM-DD or YYYY-MM-DDTHH:mm`);
+    } else if (event.end !== undefined && (!format.test(event.end) || event.end < event.start)) {
+      problems.push(`${label}: "end" should have the same format as "start" and not be earlier`);
+    }
+    event.works
+      .filter((slug) => !slugs.includes(slug))
+      .forEach((slug) => problems.push(`${label} lists "${slug}", which is not a work folder`));
+  });
+  return problems;
+}
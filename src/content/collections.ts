@@ -0,0 +1,28 @@
+import collections from '../../collections.json';
+import { localized, type Language } from '../i18n/languages';
+import type { WorkMeta } from './workMeta';
+
+/** A named group of works, as listed in collections.json, e.g. the bestiari or the gegants. */
+export type Collection = {
+  id: string;
+  title: Partial<Record<Language, string>>;
+};
+
+/** Every collection, in the order of collections.json. */
+export const getCollections = (): Collection[] => collections.collections as Collection[];
+
+export const collectionTitle = (collection: Collection, language: Language) =>
+  localized(language, collection.title) ?? collection.id;
+
+/** Collections that at least one work belongs to, in the order of collections.json. */
+export function listCollections(works: { meta: Pick<WorkMeta, 'collections'> }[]): Collection[] {
+  const used = new Set(works.flatMap((w) => w.meta.collections ?? []));
+  return getCollections().filter((c) => used.has(c.id));
+}
+
+/** Problems of the collection ids of a work: ids that collections.json doesn't define. */
+export function validateWorkCollections(meta: Pick<WorkMeta, 'collections'>, ids: string[]): string[] {
+  return (Array.isArray(meta.collections) ? meta.collections : [])
+    .filter((id) => !ids.includes(id))
+    .map((id) => `"collections" lists "${id}", which is not in collections.json`);
+}
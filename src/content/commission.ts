@@ -0,0 +1,234 @@
+import { LANGUAGE_INFO, translate, type Language, type MessageKey } from '../i18n';
+import { isEmail } from './contactForm';
+import { WORK_TYPOLOGIES, formatMeasurement, type WorkTypology } from './workMeta';
+
+export const CARRYING_METHODS = ['inside', 'head', 'harness', 'wheels', 'static'] as const;
+export type CarryingMethod = (typeof CARRYING_METHODS)[number];
+
+export const BUDGET_RANGES = ['lt3k', '3k-6k', '6k-12k', '12k-25k', 'gt25k', 'open'] as const;
+export type BudgetRange = (typeof BUDGET_RANGES)[number];
+
+/**
+ * A commission request as the wizard keeps it (and stores the draft) and as
+ * it is posted to `/api/commission`: plain strings, so half-filled drafts
+ * round-trip through JSON unchanged.
+ */
+export type CommissionRequest = {
+  figure: WorkTypology | '';
+  height: string;
+  heightUnit: 'cm' | 'm';
+  /** Maximum weight in kg, optional */
+  weight: string;
+  carrying: CarryingMethod | '';
+  /** Slugs of existing works the figure should resemble */
+  references: string[];
+  festival: string;
+  /** Delivery date as `YYYY-MM-DD` */
+  deadline: string;
+  budget: BudgetRange | '';
+  entity: string;
+  contactName: string;
+  email: string;
+  phone: string;
+  town: string;
+  notes: string;
+  /** Honeypot, as in the contact form */
+  website: string;
+};
+
+export type CommissionField = Exclude<keyof CommissionRequest, 'heightUnit' | 'website'>;
+
+export type CommissionFieldError =
+  | 'required'
+  | 'invalid'
+  | 'invalidEmail'
+  | 'tooLong'
+  | 'tooSoon'
+  | 'outOfRange'
+  | 'tooMany';
+
+export type CommissionErrors = Partial<Record<CommissionField, CommissionFieldError>>;
+
+/** Response body of `/api/commission`; `reference` identifies the request in replies. */
+export type CommissionResponse =
+  | { ok: true; reference: string }
+  | { ok: false; error: 'invalid'; fields: CommissionErrors }
+  | { ok: false; error: 'rateLimited' | 'failed' };
+
+export const COMMISSION_STEPS = [
+  { id: 'figure', fields: ['figure', 'height', 'weight', 'carrying'] },
+  { id: 'references', fields: ['references'] },
+  { id: 'schedule', fields: ['festival', 'deadline', 'budget'] },
+  { id: 'entity', fields: ['entity', 'contactName', 'email', 'phone', 'town', 'notes'] },
+  { id: 'summary', fields: [] },
+] as const satisfies ReadonlyArray<{ id: string; fields: readonly CommissionField[] }>;
+
+export type CommissionStep = (typeof COMMISSION_STEPS)[number]['id'];
+
+export const EMPTY_COMMISSION: CommissionRequest = {
+  figure: '',
+  height: '',
+  heightUnit: 'm',
+  weight: '',
+  carrying: '',
+  references: [],
+  festival: '',
+  deadline: '',
+  budget: '',
+  entity: '',
+  contactName: '',
+  email: '',
+  phone: '',
+  town: '',
+  notes: '',
+  website: '',
+};
+
+/** Weeks of workshop time a figure of each type needs at least, from the request to delivery. */
+export const LEAD_TIME_WEEKS: Record<WorkTypology, number> = {
+  gegant: 26,
+  capgros: 10,
+  nan: 10,
+  bestiari: 20,
+  drac: 26,
+  cavallet: 12,
+  altre: 12,
+};
+
+export const MAX_REFERENCES = 6;
+
+// Plausible sizes, to catch a height typed in the wrong unit
+export const HEIGHT_RANGE = { cm: { min: 10, max: 700 }, m: { min: 0.1, max: 7 } };
+export const WEIGHT_RANGE = { min: 0.5, max: 200 };
+
+export const COMMISSION_TEXT_LIMITS: Partial<Record<CommissionField, number>> = {
+  festival: 160,
+  entity: 160,
+  contactName: 120,
+  email: 254,
+  phone: 40,
+  town: 120,
+  notes: 5000,
+};
+
+const SLUG = /^[a-z0-9-]+$/;
+
+const isoDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/** First acceptable deadline (`YYYY-MM-DD`) for a figure type, counting from `now`. */
+export function earliestDeadline(figure: WorkTypology, now: Date = new Date()): string {
+  const date = new Date(now.getFullYear(), now.getMonth(), now.getDate() + LEAD_TIME_WEEKS[figure] * 7);
+  return isoDate(date);
+}
+
+/** Trimmed copy of a posted or stored body; unknown values become empty. */
+export function normalizeCommissionRequest(raw: unknown): CommissionRequest {
+  const body = raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : {};
+  const text = (key: keyof CommissionRequest) => (typeof body[key] === 'string' ? (body[key] as string).trim() : '');
+  const oneOf = <T extends string>(key: keyof CommissionRequest, values: readonly T[]): T | '' =>
+    values.includes(text(key) as T) ? (text(key) as T) : '';
+  return {
+    figure: oneOf('figure', WORK_TYPOLOGIES),
+    height: text('height'),
+    heightUnit: text('heightUnit') === 'cm' ? 'cm' : 'm',
+    weight: text('weight'),
+    carrying: oneOf('carrying', CARRYING_METHODS),
+    references: Array.isArray(body.references)
+      ? body.references.filter((slug): slug is string => typeof slug === 'string')
+      : [],
+    festival: text('festival'),
+    deadline: text('deadline'),
+    budget: oneOf('budget', BUDGET_RANGES),
+    entity: text('entity'),
+    contactName: text('contactName'),
+    email: text('email'),
+    phone: text('phone'),
+    town: text('town'),
+    notes: text('notes'),
+    website: text('website'),
+  };
+}
+
+const inRange = (value: string, { min, max }: { min: number; max: number }) => {
+  const n = Number(value.replace(',', '.'));
+  return Number.isFinite(n) && n >= min && n <= max;
+};
+
+/**
+ * Field errors of a commission request, for every step or only `step`;
+ * empty when it can be sent. Shared by the wizard and `/api/commission`.
+ */
+export function validateCommissionRequest(
+  request: CommissionRequest,
+  step?: CommissionStep,
+  now: Date = new Date()
+): CommissionErrors {
+  const errors: CommissionErrors = {};
+  const required: CommissionField[] = ['figure', 'height', 'carrying', 'deadline', 'budget', 'entity', 'contactName', 'email', 'town'];
+  required.forEach((field) => {
+    if (!request[field]) errors[field] = 'required';
+  });
+  (Object.keys(COMMISSION_TEXT_LIMITS) as CommissionField[]).forEach((field) => {
+    if (!errors[field] && (request[field] as string).length > COMMISSION_TEXT_LIMITS[field]!) errors[field] = 'tooLong';
+  });
+
+  if (!errors.height && !inRange(request.height, HEIGHT_RANGE[request.heightUnit])) errors.height = 'outOfRange';
+  if (request.weight && !inRange(request.weight, WEIGHT_RANGE)) errors.weight = 'outOfRange';
+  if (request.references.length > MAX_REFERENCES) errors.references = 'tooMany';
+  else if (request.references.some((slug) => !SLUG.test(slug))) errors.references = 'invalid';
+  if (!errors.email && !isEmail(request.email)) errors.email = 'invalidEmail';
+
+  if (!errors.deadline) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(request.deadline) || Number.isNaN(Date.parse(request.deadline))) {
+      errors.deadline = 'invalid';
+    } else if (request.figure && request.deadline < earliestDeadline(request.figure, now)) {
+      errors.deadline = 'tooSoon';
+    }
+  }
+
+  if (!step) return errors;
+  const fields: readonly CommissionField[] = COMMISSION_STEPS.find((s) => s.id === step)!.fields;
+  return Object.fromEntries(Object.entries(errors).filter(([field]) => fields.includes(field as CommissionField)));
+}
+
+/** A label/value line of the request summary. */
+export type SummaryRow = { label: string; value: string };
+
+/**
+ * The request as label/value rows in `language`, for the printable summary
+ * and the notification mail. `workName` resolves reference slugs.
+ */
+export function commissionSummary(
+  request: CommissionRequest,
+  language: Language,
+  workName: (slug: string) => string = (slug) => slug
+): SummaryRow[] {
+  const t = (key: MessageKey) => translate(language, key);
+  const { locale } = LANGUAGE_INFO[language];
+  const number = (value: string) => Number(value.replace(',', '.'));
+  const rows: [MessageKey, string | undefined][] = [
+    ['commission.field.figure', request.figure && t(`work.typology.${request.figure}`)],
+    [
+      'commission.field.height',
+      request.height && formatMeasurement({ value: number(request.height), unit: request.heightUnit }, locale),
+    ],
+    ['commission.field.weight', request.weight && formatMeasurement({ value: number(request.weight), unit: 'kg' }, locale)],
+    ['commission.field.carrying', request.carrying && t(`commission.carrying.${request.carrying}`)],
+    ['commission.step.references', request.references.map(workName).join(', ')],
+    ['commission.field.festival', request.festival],
+    [
+      'commission.field.deadline',
+      request.deadline &&
+        new Intl.DateTimeFormat(locale, { dateStyle: 'long' }).format(new Date(`${request.deadline}T12:00:00`)),
+    ],
+    ['commission.field.budget', request.budget && t(`commission.budget.${request.budget}`)],
+    ['commission.field.entity', request.entity],
+    ['commission.field.contactName', request.contactName],
+    ['commission.field.email', request.email],
+    ['commission.field.phone', request.phone],
+    ['commission.field.town', request.town],
+    ['commission.field.notes', request.notes],
+  ];
+  return rows.filter(([, value]) => value).map(([label, value]) => ({ label: t(label), value: value! }));
+}
@@ -0,0 +1,10 @@
+/** Contact details shown on Inici and published in the artist's structured data. */
+export const CONTACT = {
+  email: 'paureig.workshop@gmail.com',
+  instagram: { handle: '@paureig.art', url: 'https://www.instagram.com/paureig.art/' },
+  /** Where the workshop is, as a schema.org `PostalAddress` takes it */
+  workshop: { locality: 'Solsona', region: 'Catalunya', country: 'ES' },
+  // As published so far. It has one digit too many, but which one is for the owner to confirm, not to guess;
+  // until then it stays out of the structured data
+  phone: { number: '+346545530689', display: '+34 654 55 30 689' },
+};
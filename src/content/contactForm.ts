@@ -0,0 +1,63 @@
+/** What the contact form posts to `/api/contact`. */
+export type ContactRequest = {
+  name: string;
+  email: string;
+  organisation: string;
+  message: string;
+  /** Honeypot: hidden from people, filled in by bots. Must stay empty. */
+  website: string;
+};
+
+export type ContactField = 'name' | 'email' | 'organisation' | 'message';
+
+/** Why a field was rejected; the form maps each to a translated message. */
+export type ContactFieldError = 'required' | 'invalid' | 'tooShort' | 'tooLong';
+
+export type ContactErrors = Partial<Record<ContactField, ContactFieldError>>;
+
+/** Response body of `/api/contact`. */
+export type ContactResponse =
+  | { ok: true }
+  | { ok: false; error: 'invalid'; fields: ContactErrors }
+  | { ok: false; error: 'rateLimited' | 'failed' };
+
+export const CONTACT_FIELDS: ContactField[] = ['name', 'email', 'organisation', 'message'];
+
+export const CONTACT_LIMITS: Record<ContactField, { min: number; max: number }> = {
+  name: { min: 1, max: 120 },
+  email: { min: 1, max: 254 },
+  organisation: { min: 0, max: 160 },
+  message: { min: 10, max: 5000 },
+};
+
+// Deliberately loose: one @, no spaces, a dot in the domain. The reply is the real check.
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const isEmail = (value: string) => EMAIL.test(value);
+
+/** Trimmed copy of a posted body, with missing or non-string fields as empty strings. */
+export function normalizeContactRequest(raw: unknown): ContactRequest {
+  const body = raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : {};
+  const text = (key: keyof ContactRequest) => (typeof body[key] === 'string' ? (body[key] as string).trim() : '');
+  return {
+    name: text('name'),
+    email: text('email'),
+    organisation: text('organisation'),
+    message: text('message'),
+    website: text('website'),
+  };
+}
+
+/** Field errors of a contact request; empty when it can be sent. Shared by the form and `/api/contact`. */
+export function validateContactRequest(request: ContactRequest): ContactErrors {
+  const errors: ContactErrors = {};
+  CONTACT_FIELDS.forEach((field) => {
+    const value = request[field];
+    const { min, max } = CONTACT_LIMITS[field];
+    if (min > 0 && !value) errors[field] = 'required';
+    else if (value.length > max) errors[field] = 'tooLong';
+    else if (value.length < min) errors[field] = 'tooShort';
+    else if (field === 'email' && !isEmail(value)) errors[field] = 'invalid';
+  });
+  return errors;
+}
@@ -0,0 +1,107 @@
+import cv from '../../cv.json';
+import { LANGUAGE_INFO, localized, type Language } from '../i18n/languages';
+
+export type CvKind = 'education' | 'exhibition' | 'award';
+
+export const CV_KINDS: CvKind[] = ['education', 'exhibition', 'award'];
+
+/**
+ * A line of the CV, as listed in cv.json. `start` and `end` are `YYYY` or
+ * `YYYY-MM`; an entry without `start` is listed after the dated ones.
+ */
+export type CvEntry = {
+  id: string;
+  kind: CvKind;
+  title: Partial<Record<Language, string>>;
+  /** School, gallery, festival or jury */
+  institution?: string;
+  place?: string;
+  start?: string;
+  end?: string;
+  url?: string;
+};
+
+/**
+ * An article or broadcast about the artist. `date` is `YYYY-MM-DD` or
+ * `YYYY-MM`; `title` is the headline as published, in `language` (a BCP 47
+ * tag such as "ca"). `pdf` names a scanned clipping in `premsa/`.
+ */
+export type PressItem = {
+  id: string;
+  date: string;
+  outlet: string;
+  title: string;
+  language?: string;
+  url?: string;
+  pdf?: string;
+};
+
+/** What the list on L'Artista can show: one of the CV kinds, or the press coverage. */
+export type CvSection = CvKind | 'press';
+
+export const CV_SECTIONS: CvSection[] = [...CV_KINDS, 'press'];
+
+// Clippings are bundled from premsa/ so they get hashed URLs like the images
+const clippingUrls = Object.fromEntries(
+  Object.entries(
+    import.meta.glob<string>('../../premsa/*.pdf', { eager: true, query: '?url', import: 'default' })
+  ).map(([file, url]) => [file.split('/').pop()!, url])
+);
+
+// Latest first; undated entries last, in file order
+const byDateDesc = (a?: string, b?: string) => (b ?? '').localeCompare(a ?? '');
+
+let cachedEntries: CvEntry[] | null = null;
+let cachedPress: PressItem[] | null = null;
+
+/** Every CV entry in cv.json, latest first. */
+export function getCvEntries(): CvEntry[] {
+  if (!cachedEntries) cachedEntries = [...(cv.cv as CvEntry[])].sort((a, b) => byDateDesc(a.start, b.start));
+  return cachedEntries;
+}
+
+/** Every press item in cv.json, latest first. */
+export function getPressItems(): PressItem[] {
+  if (!cachedPress) cachedPress = [...(cv.press as PressItem[])].sort((a, b) => byDateDesc(a.date, b.date));
+  return cachedPress;
+}
+
+export const cvTitle = (entry: CvEntry, language: Language) => localized(language, entry.title) ?? entry.id;
+
+/** Bundled URL of a press item's PDF clipping, or null when it has none or the file is missing. */
+export const clippingUrl = (item: PressItem): string | null => (item.pdf ? clippingUrls[item.pdf] ?? null : null);
+
+/** Sections picked in the `show` query params; none picked means every section is shown. */
+export const parseCvSections = (params: URLSearchParams): CvSection[] =>
+  params.getAll('show').filter((s): s is CvSection => CV_SECTIONS.includes(s as CvSection));
+
+/** Copy of `params` with `sections` as the `show` params. */
+export function writeCvSections(params: URLSearchParams, sections: CvSection[]): URLSearchParams {
+  const next = new URLSearchParams(params);
+  next.delete('show');
+  sections.forEach((s) => next.append('show', s));
+  return next;
+}
+
+function formatPartialDate(value: string, language: Language): string {
+  const [year, month, day] = value.split('-').map(Number);
+  if (!month) return String(year);
+  const format = new Intl.DateTimeFormat(LANGUAGE_INFO[language].locale, {
+    year: 'numeric',
+    month: 'long',
+    ...(day ? { day: 'numeric' } : {}),
+  });
+  return format.format(new Date(year, month - 1, day || 1));
+}
+
+/** "2014" or "2014–2019" in `language`; empty when undated. */
+export function formatCvPeriod(entry: CvEntry, language: Language): string {
+  if (!entry.start) return '';
+  const start = formatPartialDate(entry.start, language);
+  if (!entry.end) return start;
+  const end = formatPartialDate(entry.end, language);
+  return end === start ? start : `${start}–${end}`;
+}
+
+/** Publication date of a press item, e.g. "12 de març de 2023" or "març de 2023". */
+export const formatPressDate = (item: PressItem, language: Language) => formatPartialDate(item.date, language);
@@ -0,0 +1,87 @@
+import hero from '../../hero.json';
+import { toResponsiveImages, videoType, type PictureModule, type ResponsiveImage, type VideoSource } from './images';
+
+/**
+ * The home hero as configured in hero.json. Paths are relative to the
+ * project root and point into `videos/`, `fotos_generals/` or `pages/`.
+ */
+export type HeroConfig = {
+  type: 'video' | 'slideshow';
+  /** The same clip in several formats, in order of preference (e.g. WebM, then MP4) */
+  video?: string[];
+  /** Still shown under the video until it plays, and instead of it with reduced motion */
+  poster?: string;
+  /** Images of the slideshow; also the fallback of a video hero whose clip is missing */
+  slides?: string[];
+  /** Seconds each slide stays on screen */
+  interval?: number;
+};
+
+export type ResolvedHero = {
+  /** Empty for a slideshow hero, or when none of the clips exists */
+  sources: VideoSource[];
+  /** Images shown under the video or cycled through as a slideshow; empty when none exists */
+  stills: ResponsiveImage[];
+  interval: number;
+  /** Configured paths that don't exist */
+  missing: string[];
+};
+
+const DEFAULT_INTERVAL = 6;
+
+/**
+ * Resolves `config` against the bundled assets, keyed by root-relative path
+ * ("/videos/video.mp4"). A video hero without any of its clips falls back to
+ * the slideshow, then to the poster alone.
+ */
+export function resolveHero(
+  config: HeroConfig,
+  videos: Record<string, string>,
+  images: Record<string, ResponsiveImage>
+): ResolvedHero {
+  const missing: string[] = [];
+  const find = <T>(assets: Record<string, T>, file: string): T[] => {
+    const asset = assets[`/${file.replace(/^\/+/, '')}`];
+    if (asset === undefined) missing.push(file);
+    return asset === undefined ? [] : [asset];
+  };
+
+  const sources =
+    config.type === 'video'
+      ? (config.video ?? []).flatMap((file) =>
+          find(videos, file).map((src) => ({ src, type: videoType(file) ?? 'video/mp4' }))
+        )
+      : [];
+  const poster = config.poster ? find(images, config.poster)[0] : undefined;
+  const slides = (config.slides ?? []).flatMap((file) => find(images, file));
+
+  let stills: ResponsiveImage[];
+  if (sources.length > 0) stills = poster ? [poster] : slides.slice(0, 1);
+  else stills = slides.length > 0 ? slides : poster ? [poster] : [];
+
+  return { sources, stills, interval: config.interval ?? DEFAULT_INTERVAL, missing };
+}
+
+let cachedHero: ResolvedHero | null = null;
+
+/** The home hero from hero.json with its assets resolved. */
+export function getHero(): ResolvedHero {
+  if (!cachedHero) {
+    // Globbed rather than imported, so a clip or photo that isn't checked in doesn't break the build
+    const videos = import.meta.glob<string>('/videos/*.{mp4,webm}', { eager: true, query: '?url', import: 'default' });
+    const images = toResponsiveImages(
+      import.meta.glob<PictureModule>(['/fotos_generals/**/*.{jpg,jpeg,png}', '/pages/*/*.{jpg,jpeg,png}'], {
+        eager: true,
+        query: '?responsive',
+        import: 'default',
+      }),
+      import.meta.glob<string>(['/fotos_generals/**/*.{jpg,jpeg,png}', '/pages/*/*.{jpg,jpeg,png}'], {
+        eager: true,
+        query: '?placeholder',
+        import: 'default',
+      })
+    );
+    cachedHero = resolveHero(hero as HeroConfig, videos, images);
+  }
+  return cachedHero;
+}
@@ -0,0 +1,109 @@
+import { localizePath, translate, type Language, type MessageKey, type MessageParams } from '../i18n';
+import { AGENDA_TIME_ZONE, eventTitle, isAllDay, type AgendaEvent } from './agenda';
+
+type IcsOptions = {
+  language: Language;
+  /** Public origin for the event links; relative links are left out when empty */
+  origin: string;
+  /** Display name of a work slug, for the description */
+  workName: (slug: string) => string;
+  /** DTSTAMP of the events; defaults to now */
+  now?: Date;
+};
+
+// RFC 5545 text values: backslash, semicolon, comma and newlines are escaped
+const escapeText = (s: string) => s.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets continue on the next line after a space, without splitting a character
+function fold(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+const compact = (value: string) => value.replace(/[-:]/g, '');
+
+const utcStamp = (date: Date) => `${date.toISOString().slice(0, 19).replace(/[-:]/g, '')}Z`;
+
+// DTEND of a whole-day event is exclusive: the day after the last one
+function dayAfter(date: string): string {
+  const [y, m, d] = date.split('-').map(Number);
+  const next = new Date(Date.UTC(y, m - 1, d + 1));
+  return next.toISOString().slice(0, 10);
+}
+
+// Central European time with the EU daylight saving rules, so the local times need no conversion
+const VTIMEZONE = [
+  'BEGIN:VTIMEZONE',
+  `TZID:${AGENDA_TIME_ZONE}`,
+  'BEGIN:DAYLIGHT',
+  'TZOFFSETFROM:+0100',
+  'TZOFFSETTO:+0200',
+  'TZNAME:CEST',
+  'DTSTART:19700329T020000',
+  'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU',
+  'END:DAYLIGHT',
+  'BEGIN:STANDARD',
+  'TZOFFSETFROM:+0200',
+  'TZOFFSETTO:+0100',
+  'TZNAME:CET',
+  'DTSTART:19701025T030000',
+  'RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU',
+  'END:STANDARD',
+  'END:VTIMEZONE',
+];
+
+function eventLines(event: AgendaEvent, { language, origin, workName, now = new Date() }: IcsOptions): string[] {
+  const t = (key: MessageKey, params?: MessageParams) => translate(language, key, params);
+  const link = origin ? `${origin}${localizePath('/agenda', language)}#${event.id}` : '';
+  const figures = t('agenda.ics.figures', { names: event.works.map(workName).join(', ') });
+
+  const dates = isAllDay(event)
+    ? [`DTSTART;VALUE=DATE:${compact(event.start)}`, `DTEND;VALUE=DATE:${compact(dayAfter(event.end ?? event.start))}`]
+    : [
+        `DTSTART;TZID=${AGENDA_TIME_ZONE}:${compact(event.start)}00`,
+        ...(event.end ? [`DTEND;TZID=${AGENDA_TIME_ZONE}:${compact(event.end)}00`] : []),
+      ];
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${event.id}@pau-reig-art`,
+    `DTSTAMP:${utcStamp(now)}`,
+    ...dates,
+    `SUMMARY:${escapeText(eventTitle(event, language))}`,
+    `LOCATION:${escapeText([event.place, event.city].filter(Boolean).join(', '))}`,
+    `DESCRIPTION:${escapeText([figures, link].filter(Boolean).join('\n'))}`,
+    ...(event.url || link ? [`URL:${event.url ?? link}`] : []),
+    'END:VEVENT',
+  ];
+}
+
+/** An iCalendar file with `events`, for a single-event download or the subscribable feed. */
+export function icsCalendar(events: AgendaEvent[], options: IcsOptions): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Pau Reig - Art//Agenda//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(translate(options.language, 'agenda.ics.calendarName'))}`,
+    `X-WR-TIMEZONE:${AGENDA_TIME_ZONE}`,
+    ...(events.some((e) => !isAllDay(e)) ? VTIMEZONE : []),
+    ...events.flatMap((event) => eventLines(event, options)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(fold).join('\r\n') + '\r\n';
+}
+
+/** Root-relative URL of the calendar feed in `language`, e.g. `/ca/agenda.ics`. */
+export const calendarFeedPath = (language: Language) => `${localizePath('/', language)}/agenda.ics`;
@@ -0,0 +1,61 @@
+/** Default export of a `?responsive` import (vite-imagetools `picture` output). */
+export type PictureModule = {
+  sources: Record<string, string>;
+  img: { src: string; w: number; h: number };
+};
+
+export type ResponsiveImage = {
+  /** Largest variant in the fallback format (JPEG or PNG) */
+  src: string;
+  width: number;
+  height: number;
+  /** One srcset per format, most efficient first (AVIF, WebP, then the fallback) */
+  sources: { type: string; srcset: string }[];
+  /** Tiny blurred data URI shown while the real image loads */
+  placeholder?: string;
+};
+
+const MIME_TYPES: Record<string, string> = { jpg: 'image/jpeg', jpeg: 'image/jpeg' };
+
+/** A `<source>` of a clip. */
+export type VideoSource = { src: string; type: string };
+
+const VIDEO_TYPES: Record<string, string> = { mp4: 'video/mp4', webm: 'video/webm' };
+
+/** MIME type of a clip from its extension, or null for formats the site doesn't serve. */
+export function videoType(file: string): string | null {
+  return VIDEO_TYPES[file.split('.').pop()!.toLowerCase()] ?? null;
+}
+
+export function toResponsiveImage(picture: PictureModule, placeholder?: string): ResponsiveImage {
+  return {
+    src: picture.img.src,
+    width: picture.img.w,
+    height: picture.img.h,
+    sources: Object.entries(picture.sources).map(([format, srcset]) => ({
+      type: MIME_TYPES[format] ?? `image/${format}`,
+      srcset,
+    })),
+    placeholder,
+  };
+}
+
+/**
+ * Pairs the modules of a `?responsive` glob with the matching `?placeholder`
+ * glob over the same files. Keys are the original file paths.
+ */
+export function toResponsiveImages(
+  pictures: Record<string, PictureModule>,
+  placeholders: Record<string, string>
+): Record<string, ResponsiveImage> {
+  return Object.fromEntries(
+    Object.entries(pictures).map(([path, picture]) => [path, toResponsiveImage(picture, placeholders[path])])
+  );
+}
+
+/** URL of the narrowest fallback-format variant, for places that can't use srcset (e.g. map markers). */
+export function smallestSrc(image: ResponsiveImage): string {
+  const fallback = image.sources[image.sources.length - 1];
+  if (!fallback || fallback.type.endsWith('avif') || fallback.type.endsWith('webp')) return image.src;
+  return fallback.srcset.split(',')[0].trim().split(/\s+/)[0] || image.src;
+}
@@ -0,0 +1,173 @@
+import { useEffect } from 'react';
+import { LANGUAGE_INFO, hreflangAlternates, localizePath, translate, type Language, type MessageKey } from '../i18n';
+import { toResponsiveImage, type ResponsiveImage } from './images';
+import { workText } from './workMeta';
+import { getWorkQueries, getWorks } from './works';
+import { absoluteUrl, serializeJsonLd, structuredData } from './structuredData';
+import homePicture from '../../fotos_generals/photo0.jpg?responsive';
+import artistPicture from '../../fotos_generals/photo2.jpg?responsive';
+import workshopPicture from '../../fotos_generals/photo5.jpg?responsive';
+
+/** Title, description and share image of a page, for the document head and link previews. */
+export type PageMeta = {
+  title: string;
+  description: string;
+  image?: ResponsiveImage;
+};
+
+/** A `<meta>` tag, keyed by `name` (standard, Twitter) or `property` (Open Graph). */
+export type MetaTag = { attribute: 'name' | 'property'; key: string; content: string };
+
+const DESCRIPTION_LENGTH = 160;
+
+// Cuts on a word boundary so link previews don't end mid-word
+function excerpt(text: string, length = DESCRIPTION_LENGTH): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  if (flat.length <= length) return flat;
+  const cut = flat.slice(0, length - 1);
+  return `${cut.slice(0, cut.lastIndexOf(' ') > 0 ? cut.lastIndexOf(' ') : cut.length)}…`;
+}
+
+/** Head metadata for an unprefixed app path such as `/obra/lleo`, in `language`. */
+export function pageMeta(path: string, language: Language): PageMeta {
+  const t = (key: MessageKey) => translate(language, key);
+  const titled = (title: string) => `${title} | ${t('meta.siteName')}`;
+  const [, section, slug] = path.split('/');
+
+  switch (section) {
+    case 'artista':
+      return {
+        title: titled(t('artist.title')),
+        description: t('meta.artist.description'),
+        image: toResponsiveImage(artistPicture),
+      };
+    case 'taller':
+      return {
+        title: titled(t('workshop.title')),
+        description: t('meta.workshop.description'),
+        image: toResponsiveImage(workshopPicture),
+      };
+    case 'agenda':
+      return {
+        title: titled(t('agenda.title')),
+        description: t('meta.agenda.description'),
+        image: toResponsiveImage(homePicture),
+      };
+    case 'encarrec':
+      return {
+        title: titled(t('commission.title')),
+        description: t('meta.commission.description'),
+        image: getWorks()[0]?.mainImage,
+      };
+    case 'obra': {
+      const works = getWorks();
+      if (!slug) {
+        return { title: titled(t('work.title')), description: t('meta.work.description'), image: works[0]?.mainImage };
+      }
+      const work = getWorkQueries().bySlug(slug);
+      if (!work) return { title: titled(t('work.notFound.title')), description: t('work.notFound.text') };
+      return {
+        title: titled(work.meta.nom),
+        description: excerpt(workText(work.meta, language)) || t('meta.work.description'),
+        image: work.mainImage,
+      };
+    }
+    default:
+      return {
+        title: t('meta.siteName'),
+        description: t('meta.home.description'),
+        image: toResponsiveImage(homePicture),
+      };
+  }
+}
+
+/** Description, Open Graph and Twitter card tags for `meta`; `url` is the page's full URL. */
+export function metaTags(meta: PageMeta, language: Language, url: string, origin: string): MetaTag[] {
+  const image = meta.image ? absoluteUrl(meta.image.src, origin) : undefined;
+  const tags: MetaTag[] = [
+    { attribute: 'name', key: 'description', content: meta.description },
+    { attribute: 'property', key: 'og:type', content: 'website' },
+    { attribute: 'property', key: 'og:site_name', content: translate(language, 'meta.siteName') },
+    { attribute: 'property', key: 'og:locale', content: LANGUAGE_INFO[language].locale },
+    { attribute: 'property', key: 'og:title', content: meta.title },
+    { attribute: 'property', key: 'og:description', content: meta.description },
+    { attribute: 'property', key: 'og:url', content: url },
+    { attribute: 'name', key: 'twitter:card', content: image ? 'summary_large_image' : 'summary' },
+    { attribute: 'name', key: 'twitter:title', content: meta.title },
+    { attribute: 'name', key: 'twitter:description', content: meta.description },
+  ];
+  if (meta.image && image) {
+    tags.push(
+      { attribute: 'property', key: 'og:image', content: image },
+      { attribute: 'property', key: 'og:image:width', content: String(meta.image.width) },
+      { attribute: 'property', key: 'og:image:height', content: String(meta.image.height) },
+      { attribute: 'name', key: 'twitter:image', content: image }
+    );
+  }
+  return tags;
+}
+
+const escapeHtml = (s: string) =>
+  s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/** The head markup of a prerendered page: title, canonical and language links, meta tags and JSON-LD. */
+export function renderHead(path: string, language: Language, origin: string): string {
+  const meta = pageMeta(path, language);
+  const url = origin + localizePath(path, language);
+  return [
+    `<title>${escapeHtml(meta.title)}</title>`,
+    `<link rel="canonical" href="${escapeHtml(url)}" />`,
+    ...hreflangAlternates(path, origin).map(
+      ({ hreflang, href }) => `<link rel="alternate" hreflang="${hreflang}" href="${escapeHtml(href)}" />`
+    ),
+    ...metaTags(meta, language, url, origin).map(
+      (tag) => `<meta ${tag.attribute}="${tag.key}" content="${escapeHtml(tag.content)}" />`
+    ),
+    ...structuredData(path, language, origin).map(
+      (data) => `<script type="application/ld+json">${serializeJsonLd(data)}</script>`
+    ),
+  ].join('\n    ');
+}
+
+/** Keeps the title, canonical link, meta tags and JSON-LD up to date during client-side navigation. */
+export function usePageMeta(path: string, language: Language) {
+  useEffect(() => {
+    const { origin } = window.location;
+    const meta = pageMeta(path, language);
+    const url = origin + localizePath(path, language);
+    document.title = meta.title;
+
+    let canonical = document.head.querySelector<HTMLLinkElement>('link[rel="canonical"]');
+    if (!canonical) {
+      canonical = document.createElement('link');
+      canonical.rel = 'canonical';
+      document.head.appendChild(canonical);
+    }
+    canonical.href = url;
+
+    const tags = metaTags(meta, language, url, origin);
+    tags.forEach(({ attribute, key, content }) => {
+      let el = document.head.querySelector<HTMLMetaElement>(`meta[${attribute}="${key}"]`);
+      if (!el) {
+        el = document.createElement('meta');
+        el.setAttribute(attribute, key);
+        document.head.appendChild(el);
+      }
+      el.content = content;
+    });
+    // Image tags of the previous page must not linger on a page without an image
+    const imageTags = document.head.querySelectorAll('meta[property^="og:image"], meta[name="twitter:image"]');
+    imageTags.forEach((el) => {
+      const attribute = el.hasAttribute('property') ? 'property' : 'name';
+      if (!tags.some((tag) => tag.attribute === attribute && tag.key === el.getAttribute(attribute))) el.remove();
+    });
+
+    document.head.querySelectorAll('script[type="application/ld+json"]').forEach((el) => el.remove());
+    structuredData(path, language, origin).forEach((data) => {
+      const script = document.createElement('script');
+      script.type = 'application/ld+json';
+      script.textContent = serializeJsonLd(data);
+      document.head.appendChild(script);
+    });
+  }, [path, language]);
+}
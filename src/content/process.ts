@@ -0,0 +1,48 @@
+import type { ResponsiveImage } from './images';
+import { PROCESS_STAGES, processImageFile, type ProcessStage, type ProcessStageName } from './workMeta';
+
+export type ProcessShot = { file: string; angle?: string; image: ResponsiveImage };
+
+/** A process stage of a work with its images resolved. */
+export type ProcessStep = { stage: ProcessStageName; shots: ProcessShot[] };
+
+/** Shots of one camera angle across the stages it was taken in, in stage order. */
+export type ProcessComparison = { angle: string; shots: (ProcessShot & { stage: ProcessStageName })[] };
+
+/**
+ * Resolves the `process` field of a work against its images, keyed by
+ * lower-cased file name. Missing files are left out, as are stages left
+ * without images; steps follow the order of `PROCESS_STAGES`.
+ */
+export function resolveProcess(
+  stages: ProcessStage[] | undefined,
+  imagesByFile: Record<string, ResponsiveImage>
+): ProcessStep[] {
+  return (stages ?? [])
+    .filter((s) => PROCESS_STAGES.includes(s.stage))
+    .map((s) => ({
+      stage: s.stage,
+      shots: s.images.flatMap((entry) => {
+        const file = processImageFile(entry);
+        const image = imagesByFile[file.toLowerCase()];
+        if (!image) return [];
+        return [{ file, image, ...(typeof entry === 'string' ? {} : { angle: entry.angle }) }];
+      }),
+    }))
+    .filter((step) => step.shots.length > 0)
+    .sort((a, b) => PROCESS_STAGES.indexOf(a.stage) - PROCESS_STAGES.indexOf(b.stage));
+}
+
+/** Angles shot in at least two different stages, in the order they first appear. */
+export function processComparisons(steps: ProcessStep[]): ProcessComparison[] {
+  const byAngle = new Map<string, ProcessComparison['shots']>();
+  steps.forEach(({ stage, shots }) => {
+    shots.forEach((shot) => {
+      if (!shot.angle) return;
+      const list = byAngle.get(shot.angle) ?? [];
+      // One shot per stage and angle: the first one listed
+      if (!list.some((s) => s.stage === stage)) byAngle.set(shot.angle, [...list, { ...shot, stage }]);
+    });
+  });
+  return Array.from(byAngle, ([angle, shots]) => ({ angle, shots })).filter((c) => c.shots.length > 1);
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { createWorkQueries } from './queries';
+import type { WorkItem } from './workFolders';
+import type { WorkMeta } from './workMeta';
+
+const work = (slug: string, meta: Partial<WorkMeta>): WorkItem => ({
+  slug,
+  folderPath: `/pages/${slug}`,
+  meta: { nom: slug, ...meta },
+  albumImages: [],
+  album: [],
+  process: [],
+});
+
+const works = [
+  work('lleo', { city: 'Gironella', year: 2023, featured: true }),
+  work('oliba', { city: 'Sant Hipòlit de Voltregà', year: 2021 }),
+  work('ovella', { city: 'Gironella', year: '2019', featured: true }),
+  work('drac', {}),
+];
+const queries = createWorkQueries(works);
+const slugs = (list: WorkItem[]) => list.map((w) => w.slug);
+
+describe('createWorkQueries', () => {
+  it('returns every work in the given order', () => {
+    expect(queries.all()).toBe(works);
+  });
+
+  it('finds a work by slug', () => {
+    expect(queries.bySlug('oliba')?.meta.nom).toBe('oliba');
+    expect(queries.bySlug('unknown')).toBeUndefined();
+  });
+
+  it('finds works by town, ignoring case and accents', () => {
+    expect(slugs(queries.byCity('gironella'))).toEqual(['lleo', 'ovella']);
+    expect(slugs(queries.byCity('sant hipolit de voltrega '))).toEqual(['oliba']);
+    expect(queries.byCity('Vic')).toEqual([]);
+  });
+
+  it('finds works by year, numeric or not', () => {
+    expect(slugs(queries.byYear(2019))).toEqual(['ovella']);
+    expect(queries.byYear(2020)).toEqual([]);
+  });
+
+  it('lists the featured works', () => {
+    expect(slugs(queries.featured())).toEqual(['lleo', 'ovella']);
+  });
+
+  it('lists each town once, sorted for the locale', () => {
+    expect(queries.cities('ca')).toEqual(['Gironella', 'Sant Hipòlit de Voltregà']);
+  });
+
+  it('spans the years of the dated works', () => {
+    expect(queries.yearRange()).toEqual({ from: 2019, to: 2023 });
+    expect(createWorkQueries([work('drac', {})]).yearRange()).toBeNull();
+  });
+});
@@ -0,0 +1,38 @@
+import { listCities, normalizeText } from './search';
+import type { WorkItem } from './workFolders';
+import { parseYear } from './workMeta';
+
+export type YearRange = { from: number; to: number };
+
+/** Typed lookups over a list of works; every list keeps the order of the works given. */
+export type WorkQueries = {
+  all: () => WorkItem[];
+  bySlug: (slug: string) => WorkItem | undefined;
+  /** Works of a town, ignoring case and accents ("Sant Celoni" matches "sant celoni") */
+  byCity: (city: string) => WorkItem[];
+  byYear: (year: number) => WorkItem[];
+  /** Works marked "featured", as shown on the home page */
+  featured: () => WorkItem[];
+  /** Towns that at least one work comes from, sorted for `locale` */
+  cities: (locale: string) => string[];
+  /** First and last year of the dated works, or null when none is dated */
+  yearRange: () => YearRange | null;
+};
+
+export function createWorkQueries(works: WorkItem[]): WorkQueries {
+  const bySlug = new Map(works.map((w) => [w.slug, w]));
+  const years = works.map((w) => parseYear(w.meta.year)).filter((y): y is number => y !== null);
+
+  return {
+    all: () => works,
+    bySlug: (slug) => bySlug.get(slug),
+    byCity: (city) => {
+      const key = normalizeText(city.trim());
+      return works.filter((w) => w.meta.city && normalizeText(w.meta.city.trim()) === key);
+    },
+    byYear: (year) => works.filter((w) => parseYear(w.meta.year) === year),
+    featured: () => works.filter((w) => w.meta.featured),
+    cities: (locale) => listCities(works, locale),
+    yearRange: () => (years.length > 0 ? { from: Math.min(...years), to: Math.max(...years) } : null),
+  };
+}
@@ -0,0 +1,36 @@
+import { normalizeText } from './search';
+import { parseYear, type WorkMeta } from './workMeta';
+
+type Relatable = { slug: string; meta: WorkMeta };
+
+// Within this many years of each other, works count as close in time
+const NEARBY_YEARS = 2;
+
+/**
+ * How related `b` is to `a`: a shared town weighs most, then the typology
+ * (or, for works without one, a shared collection), then closeness in
+ * years. Zero when they have nothing in common.
+ */
+export function relatedScore(a: Relatable, b: Relatable): number {
+  let score = 0;
+  if (a.meta.city && b.meta.city && normalizeText(a.meta.city) === normalizeText(b.meta.city)) score += 3;
+  if (a.meta.typology && a.meta.typology === b.meta.typology) score += 2;
+  else if ((a.meta.collections ?? []).some((c) => b.meta.collections?.includes(c))) score += 1;
+  const ay = parseYear(a.meta.year);
+  const by = parseYear(b.meta.year);
+  if (ay !== null && by !== null && Math.abs(ay - by) <= NEARBY_YEARS) {
+    score += (NEARBY_YEARS + 1 - Math.abs(ay - by)) / 2;
+  }
+  return score;
+}
+
+/** Up to `limit` works most related to `work`, best first; ties keep the order of `works`. */
+export function relatedWorks<T extends Relatable>(work: T, works: T[], limit = 4): T[] {
+  return works
+    .filter((w) => w.slug !== work.slug)
+    .map((w) => ({ w, score: relatedScore(work, w) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ w }) => w);
+}
@@ -0,0 +1,169 @@
+import { WORK_TYPOLOGIES, monthToIndex, parseYear, type WorkMeta, type WorkTypology } from './workMeta';
+
+export type WorkSort = 'featured' | 'newest' | 'oldest' | 'az';
+
+export const WORK_SORTS: WorkSort[] = ['featured', 'newest', 'oldest', 'az'];
+
+/**
+ * Search, filter and sort state of L'Obra, mirrored in the `q`, `city`, `type`,
+ * `material`, `collection`, `from`, `to` and `sort` query params.
+ */
+export type WorkFilters = {
+  query: string;
+  cities: string[];
+  typologies: WorkTypology[];
+  materials: string[];
+  /** Collection ids */
+  collections: string[];
+  yearFrom: number | null;
+  yearTo: number | null;
+  sort: WorkSort;
+};
+
+type Searchable = { slug: string; meta: WorkMeta };
+
+/** Lower-cased text without diacritics, so "oliva" matches "Òliva" and "voltrega" matches "Voltregà". */
+export function normalizeText(s: string): string {
+  return s
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[’`´]/g, "'")
+    .toLowerCase();
+}
+
+export function parseWorkFilters(params: URLSearchParams): WorkFilters {
+  const sort = params.get('sort') as WorkSort | null;
+  const year = (key: string) => {
+    const value = params.get(key);
+    return value ? parseYear(value) : null;
+  };
+  return {
+    query: params.get('q') ?? '',
+    cities: params.getAll('city'),
+    typologies: params.getAll('type').filter((t): t is WorkTypology => WORK_TYPOLOGIES.includes(t as WorkTypology)),
+    materials: params.getAll('material'),
+    collections: params.getAll('collection'),
+    yearFrom: year('from'),
+    yearTo: year('to'),
+    sort: sort && WORK_SORTS.includes(sort) ? sort : 'featured',
+  };
+}
+
+/** Copy of `params` with the filter params replaced; other params such as `view` are kept. */
+export function writeWorkFilters(params: URLSearchParams, filters: WorkFilters): URLSearchParams {
+  const next = new URLSearchParams(params);
+  ['q', 'city', 'type', 'material', 'collection', 'from', 'to', 'sort'].forEach((key) => next.delete(key));
+  if (filters.query.trim()) next.set('q', filters.query);
+  filters.cities.forEach((city) => next.append('city', city));
+  filters.typologies.forEach((typology) => next.append('type', typology));
+  filters.materials.forEach((material) => next.append('material', material));
+  filters.collections.forEach((collection) => next.append('collection', collection));
+  if (filters.yearFrom !== null) next.set('from', String(filters.yearFrom));
+  if (filters.yearTo !== null) next.set('to', String(filters.yearTo));
+  if (filters.sort !== 'featured') next.set('sort', filters.sort);
+  return next;
+}
+
+export function hasActiveFilters(filters: WorkFilters): boolean {
+  return (
+    !!filters.query.trim() ||
+    filters.cities.length > 0 ||
+    filters.typologies.length > 0 ||
+    filters.materials.length > 0 ||
+    filters.collections.length > 0 ||
+    filters.yearFrom !== null ||
+    filters.yearTo !== null
+  );
+}
+
+/** Filters with everything but the sort order reset. */
+export function clearWorkFilters(filters: WorkFilters): WorkFilters {
+  return { query: '', cities: [], typologies: [], materials: [], collections: [], yearFrom: null, yearTo: null, sort: filters.sort };
+}
+
+// Distinct values, merging spellings that only differ in accents or case, sorted for display
+function distinctValues(values: (string | undefined)[], locale: string): string[] {
+  const byKey = new Map<string, string>();
+  values.forEach((value) => {
+    const trimmed = value?.trim();
+    if (trimmed && !byKey.has(normalizeText(trimmed))) byKey.set(normalizeText(trimmed), trimmed);
+  });
+  return Array.from(byKey.values()).sort((a, b) => a.localeCompare(b, locale));
+}
+
+export function listCities(works: Searchable[], locale: string): string[] {
+  return distinctValues(works.map((w) => w.meta.city), locale);
+}
+
+export function listMaterials(works: Searchable[], locale: string): string[] {
+  return distinctValues(works.flatMap((w) => w.meta.materials ?? []), locale);
+}
+
+/** Typologies that at least one work declares, in the canonical order. */
+export function listTypologies(works: Searchable[]): WorkTypology[] {
+  const used = new Set(works.map((w) => w.meta.typology));
+  return WORK_TYPOLOGIES.filter((typology) => used.has(typology));
+}
+
+function matchesQuery(work: Searchable, query: string): boolean {
+  const tokens = normalizeText(query).split(/\s+/).filter(Boolean);
+  if (tokens.length === 0) return true;
+  const { nom, city, text_catala, text_angles, text_castellano, materials, commissioner, collaborators } = work.meta;
+  const haystack = normalizeText(
+    [nom, city, text_catala, text_angles, text_castellano, ...(materials ?? []), commissioner, ...(collaborators ?? [])]
+      .filter(Boolean)
+      .join(' \n ')
+  );
+  return tokens.every((token) => haystack.includes(token));
+}
+
+// Sortable date; works without a month sort after the dated ones of the same year
+const dateKey = (w: Searchable) => {
+  const year = parseYear(w.meta.year);
+  if (year === null) return null;
+  return year * 12 + (monthToIndex(w.meta.month) ?? -0.5);
+};
+
+/**
+ * Applies the search, filters and sort to `works`. The input order is the
+ * curated ("featured") order and breaks ties for the other sorts.
+ */
+export function applyWorkFilters<T extends Searchable>(works: T[], filters: WorkFilters, locale: string): T[] {
+  const cities = new Set(filters.cities.map(normalizeText));
+  const materials = new Set(filters.materials.map(normalizeText));
+  const filtered = works.filter((w) => {
+    if (!matchesQuery(w, filters.query)) return false;
+    if (cities.size > 0 && !cities.has(normalizeText(w.meta.city ?? ''))) return false;
+    if (filters.typologies.length > 0 && !(w.meta.typology && filters.typologies.includes(w.meta.typology))) return false;
+    if (materials.size > 0 && !(w.meta.materials ?? []).some((m) => materials.has(normalizeText(m)))) return false;
+    if (filters.collections.length > 0 && !(w.meta.collections ?? []).some((c) => filters.collections.includes(c))) {
+      return false;
+    }
+    if (filters.yearFrom !== null || filters.yearTo !== null) {
+      const year = parseYear(w.meta.year);
+      if (year === null) return false;
+      if (filters.yearFrom !== null && year < filters.yearFrom) return false;
+      if (filters.yearTo !== null && year > filters.yearTo) return false;
+    }
+    return true;
+  });
+
+  switch (filters.sort) {
+    case 'newest':
+    case 'oldest': {
+      const direction = filters.sort === 'newest' ? -1 : 1;
+      return [...filtered].sort((a, b) => {
+        const ak = dateKey(a);
+        const bk = dateKey(b);
+        if (ak === null || bk === null) return ak === bk ? 0 : ak === null ? 1 : -1;
+        return (ak - bk) * direction;
+      });
+    }
+    case 'az':
+      return [...filtered].sort((a, b) =>
+        (a.meta.nom || a.slug).localeCompare(b.meta.nom || b.slug, locale, { sensitivity: 'base' })
+      );
+    default:
+      return filtered;
+  }
+}
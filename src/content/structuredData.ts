@@ -0,0 +1,104 @@
+import artist from '../../artist.json';
+import artistPicture from '../../fotos_generals/photo2.jpg?responsive';
+import { LANGUAGES, LANGUAGE_INFO, localizePath, translate, type Language } from '../i18n';
+import { CONTACT } from './contact';
+import { monthToIndex, parseYear, type Measurement, type WorkMeta } from './workMeta';
+import { getWorkQueries, type WorkItem } from './works';
+
+type JsonLd = Record<string, unknown>;
+
+/** `src` against `origin`; root-relative when the origin is unknown (local builds). */
+export function absoluteUrl(src: string, origin: string): string {
+  return origin ? new URL(src, origin).href : src;
+}
+
+// Same text in every language it exists in, as JSON-LD language-tagged values
+function languageValues(byLanguage: Partial<Record<Language, string | undefined>>) {
+  return LANGUAGES.filter((l) => byLanguage[l]?.trim()).map((l) => ({
+    '@language': LANGUAGE_INFO[l].locale,
+    '@value': byLanguage[l]!.trim(),
+  }));
+}
+
+// "2022-07" when the month is known, else "2022"
+function dateCreated(meta: WorkMeta): string | undefined {
+  const year = parseYear(meta.year);
+  if (year === null) return undefined;
+  const month = monthToIndex(meta.month);
+  return month === null ? String(year) : `${year}-${String(month + 1).padStart(2, '0')}`;
+}
+
+// UN/CEFACT unit codes, as schema.org expects in QuantitativeValue
+const UNIT_CODES: Record<Measurement['unit'], string> = { cm: 'CMT', m: 'MTR', kg: 'KGM', g: 'GRM' };
+
+const quantity = (measurement?: Measurement) =>
+  measurement && { '@type': 'QuantitativeValue', value: measurement.value, unitCode: UNIT_CODES[measurement.unit] };
+
+/** The artist as a schema.org `Person`, from artist.json and the contact details. */
+export function personJsonLd(origin: string): JsonLd {
+  const bio = artist as Partial<Record<Language, string[]>>;
+  return {
+    '@type': 'Person',
+    '@id': `${origin}/#artist`,
+    name: 'Pau Reig',
+    url: absoluteUrl(localizePath('/artista', 'catala'), origin),
+    image: absoluteUrl(artistPicture.img.src, origin),
+    description: languageValues(Object.fromEntries(LANGUAGES.map((l) => [l, bio[l]?.[0]]))),
+    email: `mailto:${CONTACT.email}`,
+    sameAs: [CONTACT.instagram.url],
+    workLocation: {
+      '@type': 'Place',
+      name: CONTACT.workshop.locality,
+      address: {
+        '@type': 'PostalAddress',
+        addressLocality: CONTACT.workshop.locality,
+        addressRegion: CONTACT.workshop.region,
+        addressCountry: CONTACT.workshop.country,
+      },
+    },
+  };
+}
+
+/** A work as a schema.org `VisualArtwork`, with the artist as creator. */
+export function artworkJsonLd(work: WorkItem, language: Language, origin: string): JsonLd {
+  const { meta } = work;
+  const url = absoluteUrl(localizePath(`/obra/${work.slug}`, language), origin);
+  return {
+    '@type': 'VisualArtwork',
+    '@id': `${url}#artwork`,
+    name: meta.nom,
+    url,
+    dateCreated: dateCreated(meta),
+    locationCreated: meta.city ? { '@type': 'Place', name: meta.city, address: meta.address } : undefined,
+    // The texts as written, without the fallback workText applies for display
+    description: languageValues({
+      catala: meta.text_catala,
+      english: meta.text_angles,
+      castellano: meta.text_castellano,
+    }),
+    image: work.albumImages.map((image) => absoluteUrl(image.src, origin)),
+    artform: meta.typology ? translate(language, `work.typology.${meta.typology}`) : undefined,
+    material: meta.materials,
+    height: quantity(meta.height),
+    funder: meta.commissioner ? { '@type': 'Organization', name: meta.commissioner } : undefined,
+    contributor: meta.collaborators?.map((name) => ({ '@type': 'Person', name })),
+    creator: personJsonLd(origin),
+  };
+}
+
+/** JSON-LD documents for an unprefixed app path: the artist on Inici and L'Artista, the artwork on a work page. */
+export function structuredData(path: string, language: Language, origin: string): JsonLd[] {
+  const [, section, slug] = path.split('/');
+  const withContext = (data: JsonLd) => ({ '@context': 'https://schema.org', ...data });
+  if (!section || section === 'artista') return [withContext(personJsonLd(origin))];
+  if (section === 'obra' && slug) {
+    const work = getWorkQueries().bySlug(slug);
+    return work ? [withContext(artworkJsonLd(work, language, origin))] : [];
+  }
+  return [];
+}
+
+/** JSON for a `<script type="application/ld+json">`, safe against a closing `</script>` in the data. */
+export function serializeJsonLd(data: JsonLd): string {
+  return JSON.stringify(data).replace(/</g, '\\u003c');
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { buildTimeline } from './timeline';
+import type { WorkMeta } from './workMeta';
+
+const work = (slug: string, year?: number | string, month?: string | number) => ({
+  slug,
+  meta: { nom: slug, year, month } as WorkMeta,
+});
+
+const slugs = (works: { slug: string }[]) => works.map((w) => w.slug);
+
+describe('buildTimeline', () => {
+  it('lists years latest first, with all their works when collapsed', () => {
+    const entries = buildTimeline([work('a', 2021, 'maig'), work('b', 2022), work('c', 2021)], () => false);
+    expect(entries.map((e) => e.kind === 'year' && [e.year, slugs(e.works), e.expanded])).toEqual([
+      [2022, ['b'], false],
+      [2021, ['a', 'c'], false],
+    ]);
+  });
+
+  it('collapses a run of empty years into one gap', () => {
+    const entries = buildTimeline([work('a', 2024), work('b', 2019), work('c', 2018)], () => false);
+    expect(entries[1]).toEqual({ kind: 'gap', unit: 'year', year: 2020, from: 2020, to: 2023, length: 4 });
+    expect(entries.filter((e) => e.kind === 'gap')).toHaveLength(1);
+  });
+
+  it('lists the months of an expanded year, latest first, whatever the language of the month', () => {
+    const entries = buildTimeline(
+      [work('a', 2023, 'gener'), work('b', 2023, 'August'), work('c', 2023, 'agosto'), work('d', 2023, 'febrero')],
+      (year) => year === 2023
+    );
+    expect(entries.map((e) => (e.kind === 'month' ? [e.month, slugs(e.works)] : e.kind))).toEqual([
+      'year',
+      [7, ['b', 'c']],
+      'gap',
+      [1, ['d']],
+      [0, ['a']],
+    ]);
+    expect(entries[2]).toEqual({ kind: 'gap', unit: 'month', year: 2023, from: 2, to: 6, length: 5 });
+  });
+
+  it('puts works without a month in an undated lane after the months of their year', () => {
+    const entries = buildTimeline([work('a', 2023), work('b', 2023, 5), work('c', 2022)], () => true);
+    expect(entries.map((e) => [e.kind, 'works' in e ? slugs(e.works) : []])).toEqual([
+      ['year', ['a', 'b']],
+      ['month', ['b']],
+      ['undated', ['a']],
+      ['year', ['c']],
+      ['undated', ['c']],
+    ]);
+  });
+
+  it('ends with the works that have no year', () => {
+    const entries = buildTimeline([work('a'), work('b', 2020), work('c', 'aviat')], () => false);
+    expect(entries[entries.length - 1]).toEqual({ kind: 'undated', year: null, works: [work('a'), work('c', 'aviat')] });
+  });
+
+  it('is empty without works', () => {
+    expect(buildTimeline([], () => true)).toEqual([]);
+  });
+});
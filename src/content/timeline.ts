@@ -0,0 +1,69 @@
+import { monthToIndex, parseYear, type WorkMeta } from './workMeta';
+
+type Dated = { meta: Pick<WorkMeta, 'year' | 'month'> };
+
+/** How much of the timeline is spelled out: one row per year, or the months of every year. */
+export type TimelineZoom = 'years' | 'months';
+
+/**
+ * A row of the timeline, latest first. A year is followed by its months
+ * when expanded; runs of empty years or months collapse into one `gap`, and
+ * works without a month (or without a year, `year: null`) go to an
+ * `undated` lane instead of being guessed into January.
+ */
+export type TimelineEntry<T> =
+  | { kind: 'year'; year: number; works: T[]; expanded: boolean }
+  | { kind: 'month'; year: number; month: number; works: T[] }
+  | { kind: 'undated'; year: number | null; works: T[] }
+  // `from`/`to` are years for a year gap and zero-based months of `year` for a month gap, from <= to
+  | { kind: 'gap'; unit: 'year' | 'month'; year: number; from: number; to: number; length: number };
+
+/**
+ * Groups `works` into timeline rows; `isExpanded` decides which years list
+ * their months. Works keep their input order within a row.
+ */
+export function buildTimeline<T extends Dated>(works: T[], isExpanded: (year: number) => boolean): TimelineEntry<T>[] {
+  const years = new Map<number, { all: T[]; months: Map<number, T[]>; undated: T[] }>();
+  const noYear: T[] = [];
+
+  works.forEach((work) => {
+    const year = parseYear(work.meta.year);
+    if (year === null) {
+      noYear.push(work);
+      return;
+    }
+    if (!years.has(year)) years.set(year, { all: [], months: new Map(), undated: [] });
+    const bucket = years.get(year)!;
+    bucket.all.push(work);
+    const month = monthToIndex(work.meta.month);
+    if (month === null) bucket.undated.push(work);
+    else bucket.months.set(month, [...(bucket.months.get(month) ?? []), work]);
+  });
+
+  const entries: TimelineEntry<T>[] = [];
+  const sortedYears = Array.from(years.keys()).sort((a, b) => b - a);
+  sortedYears.forEach((year, i) => {
+    const previous = sortedYears[i - 1];
+    if (previous !== undefined && previous - year > 1) {
+      entries.push({ kind: 'gap', unit: 'year', year: year + 1, from: year + 1, to: previous - 1, length: previous - year - 1 });
+    }
+
+    const bucket = years.get(year)!;
+    const expanded = isExpanded(year);
+    entries.push({ kind: 'year', year, works: bucket.all, expanded });
+    if (!expanded) return;
+
+    const months = Array.from(bucket.months.keys()).sort((a, b) => b - a);
+    months.forEach((month, j) => {
+      const later = months[j - 1];
+      if (later !== undefined && later - month > 1) {
+        entries.push({ kind: 'gap', unit: 'month', year, from: month + 1, to: later - 1, length: later - month - 1 });
+      }
+      entries.push({ kind: 'month', year, month, works: bucket.months.get(month)! });
+    });
+    if (bucket.undated.length > 0) entries.push({ kind: 'undated', year, works: bucket.undated });
+  });
+
+  if (noYear.length > 0) entries.push({ kind: 'undated', year: null, works: noYear });
+  return entries;
+}
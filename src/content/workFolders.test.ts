@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import type { ResponsiveImage } from './images';
+import { assembleWorks, type WorkSources } from './workFolders';
+
+const image = (path: string): ResponsiveImage => ({ src: path, width: 800, height: 600, sources: [] });
+
+function sources({ metadata = {}, images = [], clips = [] }: { metadata?: Record<string, unknown>; images?: string[]; clips?: string[] }): WorkSources {
+  return {
+    metadata,
+    images: Object.fromEntries(images.map((path) => [path, image(path)])),
+    clips: Object.fromEntries(clips.map((path) => [path, `/assets${path}`])),
+  };
+}
+
+const albumFiles = (sources: WorkSources, slug: string) =>
+  assembleWorks(sources)
+    .find((w) => w.slug === slug)!
+    .album.map((entry) => (entry.type === 'image' ? entry.image.src : entry.video.sources[0].src));
+
+describe('assembleWorks', () => {
+  it('reads one work per folder, with the metadata of its JSON file', () => {
+    const works = assembleWorks(
+      sources({
+        metadata: {
+          '/pages/lleo/lleo.json': { default: { nom: 'Lleó', city: 'Gironella', year: 2023 } },
+          '/pages/oliba/oliba.json': { nom: 'Òliba', year: 2021 },
+        },
+      })
+    );
+    expect(works.map((w) => w.slug)).toEqual(['lleo', 'oliba']);
+    expect(works[0]).toMatchObject({ folderPath: '/pages/lleo', meta: { nom: 'Lleó', city: 'Gironella' } });
+    expect(works[1].meta.nom).toBe('Òliba');
+  });
+
+  it('lists a folder without metadata under its folder name', () => {
+    const [work] = assembleWorks(sources({ images: ['/pages/drac/foto.jpg'] }));
+    expect(work.slug).toBe('drac');
+    expect(work.meta).toEqual({ nom: 'drac' });
+    expect(work.albumImages.map((i) => i.src)).toEqual(['/pages/drac/foto.jpg']);
+  });
+
+  it('ignores files outside a work folder', () => {
+    const works = assembleWorks(sources({ metadata: { '/pages/loose.json': { nom: 'Loose' } }, images: ['/pages/loose.jpg'] }));
+    expect(works).toEqual([]);
+  });
+
+  it('takes main and main2 from their files', () => {
+    const [work] = assembleWorks(
+      sources({
+        metadata: { '/pages/lleo/lleo.json': { nom: 'Lleó' } },
+        images: ['/pages/lleo/a.jpg', '/pages/lleo/main.jpg', '/pages/lleo/main2.png'],
+      })
+    );
+    expect(work.mainImage?.src).toBe('/pages/lleo/main.jpg');
+    expect(work.main2Image?.src).toBe('/pages/lleo/main2.png');
+  });
+
+  it('falls back to the first photo of the album without a main file', () => {
+    const [work] = assembleWorks(
+      sources({ metadata: { '/pages/lleo/lleo.json': { nom: 'Lleó' } }, images: ['/pages/lleo/b.jpg', '/pages/lleo/a.jpg'] })
+    );
+    expect(work.mainImage?.src).toBe('/pages/lleo/a.jpg');
+    expect(work.main2Image).toBeUndefined();
+  });
+
+  it('sorts the album with main first, then the "album" order, then by name', () => {
+    const files = albumFiles(
+      sources({
+        metadata: { '/pages/lleo/lleo.json': { nom: 'Lleó', album: ['Z.jpg', 'b.jpg'] } },
+        images: ['/pages/lleo/c.jpg', '/pages/lleo/b.jpg', '/pages/lleo/a.jpg', '/pages/lleo/Z.jpg', '/pages/lleo/main.jpg'],
+      }),
+      'lleo'
+    );
+    expect(files).toEqual(['/pages/lleo/main.jpg', '/pages/lleo/Z.jpg', '/pages/lleo/b.jpg', '/pages/lleo/a.jpg', '/pages/lleo/c.jpg']);
+  });
+
+  it('puts clips in the album and takes their poster frame out of the photos', () => {
+    const [work] = assembleWorks(
+      sources({
+        metadata: { '/pages/lleo/lleo.json': { nom: 'Lleó' } },
+        images: ['/pages/lleo/main.jpg', '/pages/lleo/ball.jpg', '/pages/lleo/c.jpg'],
+        clips: ['/pages/lleo/ball.mp4', '/pages/lleo/ball.webm'],
+      })
+    );
+    expect(work.albumImages.map((i) => i.src)).toEqual(['/pages/lleo/main.jpg', '/pages/lleo/c.jpg']);
+    const clip = work.album[1];
+    expect(clip.type).toBe('video');
+    if (clip.type !== 'video') return;
+    expect(clip.video.sources.map((s) => s.type)).toEqual(['video/webm', 'video/mp4']);
+    expect(clip.video.poster?.src).toBe('/pages/lleo/ball.jpg');
+  });
+
+  it('returns the works in the curated order', () => {
+    const works = assembleWorks(
+      sources({
+        metadata: {
+          '/pages/a/a.json': { nom: 'A', year: 2019 },
+          '/pages/b/b.json': { nom: 'B', year: 2024 },
+          '/pages/c/c.json': { nom: 'C', year: 2020, order: 1 },
+        },
+      })
+    );
+    expect(works.map((w) => w.slug)).toEqual(['c', 'b', 'a']);
+  });
+});
@@ -0,0 +1,232 @@
+import { parseYear, type WorkMeta } from './workMeta';
+import { videoType, type ResponsiveImage, type VideoSource } from './images';
+import { resolveProcess, type ProcessStep } from './process';
+
+/** A work folder under `pages/` with its metadata and images. */
+export type WorkItem = {
+  slug: string;
+  folderPath: string;
+  meta: WorkMeta;
+  mainImage?: ResponsiveImage;
+  main2Image?: ResponsiveImage;
+  /** Photos of the album, without the poster frames of clips */
+  albumImages: ResponsiveImage[];
+  /** What the drawer carousel pages through: the photos and the clips, in album order */
+  album: AlbumEntry[];
+  /** Making-of stages declared in the metadata; empty for most works */
+  process: ProcessStep[];
+};
+
+/** A clip of a work folder; an image with the same base name ("ball.jpg" for "ball.mp4") is its poster frame. */
+export type WorkVideo = { sources: VideoSource[]; poster?: ResponsiveImage };
+
+export type AlbumEntry = { type: 'image'; image: ResponsiveImage } | { type: 'video'; video: WorkVideo };
+
+/**
+ * The files of `pages/` a build sees, keyed by root-relative path
+ * ("/pages/lleo/main.jpg"), as the `import.meta.glob` calls of works.ts
+ * load them.
+ */
+export type WorkSources = {
+  /** Metadata modules of the `<folder>/*.json` files */
+  metadata: Record<string, unknown>;
+  /** Every photo of every folder, main and main2 included */
+  images: Record<string, ResponsiveImage>;
+  /** URLs of the clips (`.mp4`, `.webm`) */
+  clips: Record<string, string>;
+};
+
+/**
+ * L'Obra's default ("featured") order: works with an `order` first, lowest
+ * first, then the rest by year, latest first, and by name.
+ */
+export function compareCurated(a: Pick<WorkItem, 'slug' | 'meta'>, b: Pick<WorkItem, 'slug' | 'meta'>): number {
+  const ao = a.meta.order ?? Infinity;
+  const bo = b.meta.order ?? Infinity;
+  if (ao !== bo) return ao < bo ? -1 : 1;
+  const ay = parseYear(a.meta.year) ?? -Infinity;
+  const by = parseYear(b.meta.year) ?? -Infinity;
+  if (ay !== by) return by > ay ? 1 : -1;
+  return (a.meta.nom || a.slug).localeCompare(b.meta.nom || b.slug);
+}
+
+const baseName = (fileName: string) => fileName.replace(/\.[^.]+$/, '');
+
+/**
+ * Assembles the work folders found in `sources` (metadata, main/main2 images
+ * and album) and returns them in the curated order. A folder with images but
+ * no metadata is still listed, under its folder name.
+ */
+export function assembleWorks(sources: WorkSources): WorkItem[] {
+  const { metadata: jsonModules, images: albumImageModules, clips } = sources;
+  // Main image per folder (jpg/png/jpeg)
+  const mainImageModules = Object.fromEntries(
+    Object.entries(albumImageModules).filter(([path]) => /\/main\.(jpg|jpeg|png)$/.test(path))
+  );
+  // Optional secondary main image for list view
+  const main2ImageModules = Object.fromEntries(
+    Object.entries(albumImageModules).filter(([path]) => /\/main2\.(jpg|jpeg|png)$/.test(path))
+  );
+
+  const worksByFolder: Record<string, WorkItem> = {};
+
+  // Build base items from JSON files
+  Object.entries(jsonModules).forEach(([path, mod]) => {
+    const folderMatch = path.match(/^\/pages\/([^\/]+)\//);
+    if (!folderMatch) return;
+    const folder = folderMatch[1];
+    const slug = folder;
+    const metaModule = mod as any;
+    const meta: WorkMeta = (metaModule && typeof metaModule === 'object' && 'default' in metaModule)
+      ? (metaModule.default as WorkMeta)
+      : (metaModule as WorkMeta);
+
+    worksByFolder[folder] = {
+      slug,
+      folderPath: `/pages/${folder}`,
+      meta,
+      mainImage: undefined,
+      main2Image: undefined,
+      albumImages: [],
+      album: [],
+      process: [],
+    };
+  });
+
+  // Attach main image URLs
+  Object.entries(mainImageModules).forEach(([path, image]) => {
+    const folderMatch = path.match(/^\/pages\/([^\/]+)\//);
+    if (!folderMatch) return;
+    const folder = folderMatch[1];
+    if (!worksByFolder[folder]) {
+      // Create placeholder if JSON missing
+      worksByFolder[folder] = {
+        slug: folder,
+        folderPath: `/pages/${folder}`,
+        meta: { nom: folder },
+        mainImage: image,
+        main2Image: undefined,
+        albumImages: [],
+        album: [],
+        process: [],
+      };
+    } else {
+      worksByFolder[folder].mainImage = image;
+    }
+  });
+
+  // Attach main2 image URLs
+  Object.entries(main2ImageModules).forEach(([path, image]) => {
+    const folderMatch = path.match(/^\/pages\/([^\/]+)\//);
+    if (!folderMatch) return;
+    const folder = folderMatch[1];
+    if (!worksByFolder[folder]) {
+      worksByFolder[folder] = {
+        slug: folder,
+        folderPath: `/pages/${folder}`,
+        meta: { nom: folder },
+        mainImage: undefined,
+        main2Image: image,
+        albumImages: [],
+        album: [],
+        process: [],
+      };
+    } else {
+      worksByFolder[folder].main2Image = image;
+    }
+  });
+
+  // Attach album images, sorted by filename (try to put main first)
+  const albumByFolder: Record<string, { fileName: string; image: ResponsiveImage }[]> = {};
+  Object.entries(albumImageModules).forEach(([path, image]) => {
+    const match = path.match(/^\/pages\/([^\/]+)\/([^\/]+)$/);
+    if (!match) return;
+    const folder = match[1];
+    const fileName = match[2].toLowerCase();
+    if (!albumByFolder[folder]) albumByFolder[folder] = [];
+    albumByFolder[folder].push({ fileName, image });
+  });
+
+  // Clips per folder by base name, so "ball.webm" and "ball.mp4" are one video with two sources
+  const clipsByFolder: Record<string, Record<string, { fileName: string; sources: VideoSource[] }>> = {};
+  Object.entries(clips).forEach(([path, src]) => {
+    const match = path.match(/^\/pages\/([^\/]+)\/([^\/]+)$/);
+    if (!match) return;
+    const folder = match[1];
+    const fileName = match[2].toLowerCase();
+    const base = baseName(fileName);
+    clipsByFolder[folder] = clipsByFolder[folder] ?? {};
+    const clip = (clipsByFolder[folder][base] = clipsByFolder[folder][base] ?? { fileName, sources: [] });
+    clip.sources.push({ src, type: videoType(fileName) ?? 'video/mp4' });
+    // WebM first: browsers take the first source they can play, and it is usually the smaller file
+    clip.sources.sort((a, b) => (a.type === 'video/webm' ? -1 : b.type === 'video/webm' ? 1 : 0));
+  });
+
+  new Set([...Object.keys(albumByFolder), ...Object.keys(clipsByFolder)]).forEach((folder) => {
+    const entries = albumByFolder[folder] ?? [];
+    const clips = clipsByFolder[folder] ?? {};
+    // Explicit order from the "album" field, then the remaining files by name
+    const albumOrder = (worksByFolder[folder]?.meta.album ?? []).map((f) => f.toLowerCase());
+    const rank = (fileName: string) => {
+      const i = albumOrder.indexOf(fileName);
+      return i === -1 ? Infinity : i;
+    };
+    // An image named like a clip is its poster frame rather than a photo of the album
+    const posters = Object.fromEntries(
+      entries.filter((e) => clips[baseName(e.fileName)]).map((e) => [baseName(e.fileName), e.image])
+    );
+    const media: { fileName: string; entry: AlbumEntry }[] = [
+      ...entries
+        .filter((e) => !clips[baseName(e.fileName)])
+        .map((e) => ({ fileName: e.fileName, entry: { type: 'image', image: e.image } as AlbumEntry })),
+      ...Object.entries(clips).map(([base, clip]) => ({
+        fileName: clip.fileName,
+        entry: { type: 'video', video: { sources: clip.sources, poster: posters[base] } } as AlbumEntry,
+      })),
+    ];
+    const album = media
+      .sort((a, b) => {
+        const an = a.fileName;
+        const bn = b.fileName;
+        // Prefer files named 'main.*' first, then the album order, then natural order
+        const aIsMain = an.startsWith('main.');
+        const bIsMain = bn.startsWith('main.');
+        if (aIsMain && !bIsMain) return -1;
+        if (!aIsMain && bIsMain) return 1;
+        if (rank(an) !== rank(bn)) return rank(an) < rank(bn) ? -1 : 1;
+        return an.localeCompare(bn);
+      })
+      .map((m) => m.entry);
+    const sorted = album.flatMap((e) => (e.type === 'image' ? [e.image] : []));
+    if (!worksByFolder[folder]) {
+      worksByFolder[folder] = {
+        slug: folder,
+        folderPath: `/pages/${folder}`,
+        meta: { nom: folder },
+        albumImages: sorted,
+        album,
+        process: [],
+      };
+    } else {
+      worksByFolder[folder].albumImages = sorted;
+      worksByFolder[folder].album = album;
+      worksByFolder[folder].process = resolveProcess(
+        worksByFolder[folder].meta.process,
+        Object.fromEntries(entries.map((e) => [e.fileName, e.image]))
+      );
+      // If no explicit main image, pick first in sorted list
+      if (!worksByFolder[folder].mainImage && sorted.length > 0) {
+        worksByFolder[folder].mainImage = sorted[0];
+      }
+    }
+  });
+
+  // Only keep folders that at least have meta or images
+  const items = Object.values(worksByFolder).filter(
+    (w) => w.meta?.nom || w.mainImage || (w.albumImages && w.albumImages.length > 0)
+  );
+
+  items.sort(compareCurated);
+
+  return items;
+}
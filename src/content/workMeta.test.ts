@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { monthToIndex, parseYear, validateWorkMeta } from './workMeta';
+
+describe('monthToIndex', () => {
+  it.each([
+    ['gener', 0],
+    ['març', 2],
+    ['maig', 4],
+    ['setembre', 8],
+    ['desembre', 11],
+  ])('reads the Catalan "%s"', (month, index) => {
+    expect(monthToIndex(month)).toBe(index);
+  });
+
+  it.each([
+    ['January', 0],
+    ['May', 4],
+    ['August', 7],
+    ['Sep', 8],
+    ['December', 11],
+  ])('reads the English "%s"', (month, index) => {
+    expect(monthToIndex(month)).toBe(index);
+  });
+
+  it.each([
+    ['enero', 0],
+    ['marzo', 2],
+    ['mayo', 4],
+    ['septiembre', 8],
+    ['diciembre', 11],
+  ])('reads the Spanish "%s"', (month, index) => {
+    expect(monthToIndex(month)).toBe(index);
+  });
+
+  it('ignores case and surrounding spaces', () => {
+    expect(monthToIndex('  JULIOL ')).toBe(6);
+  });
+
+  it('reads month numbers from 1 to 12', () => {
+    expect(monthToIndex(1)).toBe(0);
+    expect(monthToIndex(12)).toBe(11);
+    expect(monthToIndex(0)).toBeNull();
+    expect(monthToIndex(13)).toBeNull();
+    expect(monthToIndex(2.5)).toBeNull();
+  });
+
+  it('returns null for anything else', () => {
+    expect(monthToIndex(undefined)).toBeNull();
+    expect(monthToIndex('')).toBeNull();
+    expect(monthToIndex('primavera')).toBeNull();
+  });
+});
+
+describe('parseYear', () => {
+  it('reads numbers and numeric strings', () => {
+    expect(parseYear(2023)).toBe(2023);
+    expect(parseYear(' 2021 ')).toBe(2021);
+  });
+
+  it('returns null for missing or partial years', () => {
+    expect(parseYear(undefined)).toBeNull();
+    expect(parseYear('circa 2020')).toBeNull();
+    expect(parseYear(2020.5)).toBeNull();
+  });
+});
+
+describe('validateWorkMeta', () => {
+  it('rejects empty texts', () => {
+    const issues = validateWorkMeta({ nom: 'Bou', year: 2024, text_catala: '', text_angles: ' ' });
+    expect(issues).toEqual([
+      { level: 'error', message: '"text_catala" is empty' },
+      { level: 'error', message: '"text_angles" is empty' },
+    ]);
+  });
+
+  it('rejects texts that are not strings', () => {
+    expect(validateWorkMeta({ nom: 'Bou', year: 2024, text_catala: 3, text_angles: 'x' })).toEqual([
+      { level: 'error', message: '"text_catala" must be a string' },
+    ]);
+  });
+});
@@ -0,0 +1,271 @@
+import { localized, type Language } from '../i18n/languages';
+
+/**
+ * Shape of the `pages/<slug>/<slug>.json` metadata files. Shared by L'Obra
+ * and by the build-time content lint in `plugins/validateWorks.ts`.
+ */
+export type WorkMeta = {
+  nom: string;
+  city?: string;
+  address?: string;
+  text_catala?: string;
+  text_angles?: string;
+  /** Optional; Castellano falls back to the Catalan text when missing */
+  text_castellano?: string;
+  year?: number | string;
+  month?: string | number;
+  /** Explicit map position; takes precedence over the gazetteer lookup of `address`/`city` */
+  lat?: number;
+  lng?: number;
+  // Fitxa tècnica, all optional
+  typology?: WorkTypology;
+  /** Free text as the workshop names them, e.g. "cartró pedra", "fibra de vidre" */
+  materials?: string[];
+  height?: Measurement<LengthUnit>;
+  weight?: Measurement<WeightUnit>;
+  /** Entity that commissioned the figure (colla, ajuntament, comissió de festes…) */
+  commissioner?: string;
+  collaborators?: string[];
+  /** Album order by file name; images not listed follow, sorted by name. `main.*` always comes first. */
+  album?: string[];
+  /** Making-of images grouped by stage; shown in the order of `PROCESS_STAGES` */
+  process?: ProcessStage[];
+  /** Shown in the featured strip of the home page */
+  featured?: boolean;
+  /** Curated position in L'Obra, lowest first; works without it follow, latest first */
+  order?: number;
+  /** Ids of the collections in collections.json the work belongs to */
+  collections?: string[];
+};
+
+export const PROCESS_STAGES = ['sketch', 'modelling', 'mould', 'painting', 'finished', 'street'] as const;
+
+export type ProcessStageName = (typeof PROCESS_STAGES)[number];
+
+/**
+ * A file of the work folder, or a file with the camera angle it was taken
+ * from; shots of two stages with the same angle can be compared.
+ */
+export type ProcessImage = string | { file: string; angle: string };
+
+export type ProcessStage = { stage: ProcessStageName; images: ProcessImage[] };
+
+export const WORK_TYPOLOGIES = ['gegant', 'capgros', 'nan', 'bestiari', 'drac', 'cavallet', 'altre'] as const;
+
+export type WorkTypology = (typeof WORK_TYPOLOGIES)[number];
+
+const LENGTH_UNITS = ['cm', 'm'] as const;
+const WEIGHT_UNITS = ['kg', 'g'] as const;
+
+type LengthUnit = (typeof LENGTH_UNITS)[number];
+type WeightUnit = (typeof WEIGHT_UNITS)[number];
+
+export type Measurement<U extends string = LengthUnit | WeightUnit> = { value: number; unit: U };
+
+export type WorkLocation = { lat: number; lng: number };
+
+export const WORK_META_KEYS: ReadonlyArray<keyof WorkMeta> = [
+  'nom',
+  'city',
+  'address',
+  'text_catala',
+  'text_angles',
+  'text_castellano',
+  'year',
+  'month',
+  'lat',
+  'lng',
+  'typology',
+  'materials',
+  'height',
+  'weight',
+  'commissioner',
+  'collaborators',
+  'album',
+  'process',
+  'featured',
+  'order',
+  'collections',
+];
+
+/** File name of a process image, whichever form it is written in. */
+export const processImageFile = (image: ProcessImage) => (typeof image === 'string' ? image : image.file);
+
+// Month names as they appear in the JSON files (English, Catalan, Spanish and short forms)
+const MONTHS: Record<string, number> = {
+  'january': 0, 'jan': 0, 'gener': 0, 'ene': 0, 'enero': 0,
+  'february': 1, 'feb': 1, 'febrer': 1, 'febrero': 1,
+  'march': 2, 'mar': 2, 'març': 2, 'marzo': 2,
+  'april': 3, 'apr': 3, 'abril': 3,
+  'may': 4, 'mai': 4, 'mayo': 4, 'maig': 4,
+  'june': 5, 'jun': 5, 'juny': 5, 'junio': 5,
+  'july': 6, 'jul': 6, 'juliol': 6, 'julio': 6,
+  'august': 7, 'aug': 7, 'agost': 7, 'agosto': 7,
+  'september': 8, 'sep': 8, 'setembre': 8, 'septiembre': 8,
+  'october': 9, 'oct': 9, 'octubre': 9,
+  'november': 10, 'nov': 10, 'novembre': 10, 'noviembre': 10,
+  'december': 11, 'dec': 11, 'desembre': 11, 'diciembre': 11,
+};
+
+/** Zero-based month index for a `month` value, or null when it can't be parsed. */
+export function monthToIndex(m?: string | number): number | null {
+  if (m === undefined || m === null) return null;
+  if (typeof m === 'number') return Number.isInteger(m) && m >= 1 && m <= 12 ? m - 1 : null;
+  const s = m.toString().trim().toLowerCase();
+  return MONTHS[s] ?? null;
+}
+
+/** Numeric year for a `year` value, or null when it is missing or not a whole number. */
+export function parseYear(y?: number | string): number | null {
+  if (y === undefined || y === null) return null;
+  const n = typeof y === 'string' ? Number(y.trim()) : y;
+  return Number.isInteger(n) ? n : null;
+}
+
+/** Description of a work in `language`, falling back to another language when it hasn't been written yet. */
+export function workText(meta: WorkMeta, language: Language): string {
+  return (
+    localized(language, { catala: meta.text_catala, english: meta.text_angles, castellano: meta.text_castellano }) ?? ''
+  );
+}
+
+export type WorkMetaIssue = { level: 'error' | 'warning'; message: string };
+// Intl unit identifiers for the units allowed in the JSON
+const INTL_UNITS: Record<LengthUnit | WeightUnit, string> = {
+  cm: 'centimeter',
+  m: 'meter',
+  kg: 'kilogram',
+  g: 'gram',
+};
+
+/** Localised measurement, e.g. "3,8 m" in Catalan or "3.8 m" in English. */
+export function formatMeasurement(measurement: Measurement, locale: string): string {
+  return new Intl.NumberFormat(locale, {
+    style: 'unit',
+    unit: INTL_UNITS[measurement.unit],
+    maximumFractionDigits: 2,
+  }).format(measurement.value);
+}
+
+const MIN_YEAR = 1990;
+
+/** Checks a parsed JSON value against the `WorkMeta` schema. Returns an empty list when valid. */
+export function validateWorkMeta(raw: unknown, now: Date = new Date()): WorkMetaIssue[] {
+  const issues: WorkMetaIssue[] = [];
+  const error = (message: string) => issues.push({ level: 'error', message });
+  const warn = (message: string) => issues.push({ level: 'warning', message });
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    error('metadata must be a JSON object');
+    return issues;
+  }
+  const meta = raw as Record<string, unknown>;
+
+  Object.keys(meta)
+    .filter((key) => !WORK_META_KEYS.includes(key as keyof WorkMeta))
+    .forEach((key) => warn(`unknown field "${key}"`));
+
+  if (typeof meta.nom !== 'string' || !meta.nom.trim()) {
+    error('"nom" is missing or empty');
+  }
+
+  (['city', 'address'] as const).forEach((key) => {
+    if (meta[key] !== undefined && typeof meta[key] !== 'string') error(`"${key}" must be a string`);
+  });
+
+  (['text_catala', 'text_angles'] as const).forEach((key) => {
+    const value = meta[key];
+    if (value !== undefined && typeof value !== 'string') error(`"${key}" must be a string`);
+    else if (!value || !(value as string).trim()) error(`"${key}" is empty`);
+  });
+
+  if (meta.text_castellano !== undefined && typeof meta.text_castellano !== 'string') {
+    error('"text_castellano" must be a string');
+  }
+
+  if (meta.year === undefined) {
+    warn('"year" is missing, the work will not appear on the timeline');
+  } else {
+    const maxYear = now.getFullYear() + 1;
+    const year = typeof meta.year === 'number' || typeof meta.year === 'string' ? parseYear(meta.year) : null;
+    if (year === null) error(`"year" must be a whole number, got ${JSON.stringify(meta.year)}`);
+    else if (year < MIN_YEAR || year > maxYear) error(`"year" ${year} is outside ${MIN_YEAR}–${maxYear}`);
+  }
+
+  if (meta.month !== undefined) {
+    const month = typeof meta.month === 'number' || typeof meta.month === 'string' ? monthToIndex(meta.month) : null;
+    if (month === null) error(`"month" ${JSON.stringify(meta.month)} is not a recognised month`);
+  }
+
+  if ((meta.lat === undefined) !== (meta.lng === undefined)) {
+    error('"lat" and "lng" must be given together');
+  } else if (meta.lat !== undefined) {
+    const { lat, lng } = meta;
+    if (typeof lat !== 'number' || lat < -90 || lat > 90) error(`"lat" must be a number between -90 and 90`);
+    if (typeof lng !== 'number' || lng < -180 || lng > 180) error(`"lng" must be a number between -180 and 180`);
+  }
+
+  if (meta.typology !== undefined && !WORK_TYPOLOGIES.includes(meta.typology as WorkTypology)) {
+    error(`"typology" must be one of ${WORK_TYPOLOGIES.join(', ')}, got ${JSON.stringify(meta.typology)}`);
+  }
+
+  (['materials', 'collaborators', 'album', 'collections'] as const).forEach((key) => {
+    const value = meta[key];
+    if (value === undefined) return;
+    if (!Array.isArray(value) || value.some((item) => typeof item !== 'string' || !item.trim())) {
+      error(`"${key}" must be a list of non-empty strings`);
+    }
+  });
+
+  if (meta.process !== undefined) {
+    if (!Array.isArray(meta.process)) {
+      error('"process" must be a list of stages');
+    } else {
+      const seen = new Set<unknown>();
+      meta.process.forEach((raw, i) => {
+        const stage = raw as Partial<Record<keyof ProcessStage, unknown>> | null;
+        if (!stage || typeof stage !== 'object' || !PROCESS_STAGES.includes(stage.stage as ProcessStageName)) {
+          error(`"process" ${i + 1}: "stage" must be one of ${PROCESS_STAGES.join(', ')}`);
+          return;
+        }
+        if (seen.has(stage.stage)) warn(`"process" lists the stage "${stage.stage}" more than once`);
+        seen.add(stage.stage);
+        const validImage = (image: unknown) =>
+          (typeof image === 'string' && !!image.trim()) ||
+          (!!image &&
+            typeof image === 'object' &&
+            typeof (image as { file?: unknown }).file === 'string' &&
+            typeof (image as { angle?: unknown }).angle === 'string' &&
+            !!(image as { angle: string }).angle.trim());
+        if (!Array.isArray(stage.images) || stage.images.length === 0 || !stage.images.every(validImage)) {
+          error(`"process" stage "${stage.stage}": "images" must list file names or { "file", "angle" } objects`);
+        }
+      });
+    }
+  }
+
+  if (meta.featured !== undefined && typeof meta.featured !== 'boolean') error('"featured" must be true or false');
+  if (meta.order !== undefined && (typeof meta.order !== 'number' || !Number.isFinite(meta.order))) {
+    error('"order" must be a number');
+  }
+
+  if (meta.commissioner !== undefined && (typeof meta.commissioner !== 'string' || !meta.commissioner.trim())) {
+    error('"commissioner" must be a non-empty string');
+  }
+
+  const measurement = (key: 'height' | 'weight', units: readonly string[]) => {
+    const value = meta[key] as Partial<Measurement> | undefined;
+    if (value === undefined) return;
+    const valid =
+      !!value &&
+      typeof value === 'object' &&
+      typeof value.value === 'number' &&
+      value.value > 0 &&
+      units.includes(value.unit as string);
+    if (!valid) error(`"${key}" must look like { "value": <positive number>, "unit": "${units.join('" | "')}" }`);
+  };
+  measurement('height', LENGTH_UNITS);
+  measurement('weight', WEIGHT_UNITS);
+
+  return issues;
+}
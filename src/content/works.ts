@@ -0,0 +1,34 @@
+import { assembleWorks, type WorkItem } from './workFolders';
+import { toResponsiveImages, type PictureModule } from './images';
+import { createWorkQueries, type WorkQueries } from './queries';
+
+export { compareCurated, type AlbumEntry, type WorkItem, type WorkVideo } from './workFolders';
+
+/** Reads every work folder under `pages/` and returns them in the curated order. */
+export function buildWorks(): WorkItem[] {
+  // Load JSON metadata from each folder under /pages/*/*.json
+  const jsonModules = import.meta.glob('/pages/*/*.json', { eager: true }) as Record<string, unknown>;
+  // Load all images per folder for the album, as responsive variants with a blurred placeholder
+  const albumImageModules = toResponsiveImages(
+    import.meta.glob<PictureModule>('/pages/*/*.{jpg,jpeg,png}', { eager: true, query: '?responsive', import: 'default' }),
+    import.meta.glob<string>('/pages/*/*.{jpg,jpeg,png}', { eager: true, query: '?placeholder', import: 'default' })
+  );
+  const clips = import.meta.glob<string>('/pages/*/*.{mp4,webm}', { eager: true, query: '?url', import: 'default' });
+  return assembleWorks({ metadata: jsonModules, images: albumImageModules, clips });
+}
+
+let cachedWorks: WorkItem[] | null = null;
+
+/** All works, built once and shared by the pages and the document head. */
+export function getWorks(): WorkItem[] {
+  if (!cachedWorks) cachedWorks = buildWorks();
+  return cachedWorks;
+}
+
+let cachedQueries: WorkQueries | null = null;
+
+/** Queries over all works: by slug, town or year, the featured ones, the towns and the span of years. */
+export function getWorkQueries(): WorkQueries {
+  if (!cachedQueries) cachedQueries = createWorkQueries(getWorks());
+  return cachedQueries;
+}
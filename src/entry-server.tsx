@@ -0,0 +1,62 @@
+import React from 'react';
+import { renderToString } from 'react-dom/server';
+import { StaticRouter } from 'react-router-dom/server';
+import App from './App';
+import { ThemeProvider } from './theme';
+import { getEvents } from './content/agenda';
+import { calendarFeedPath, icsCalendar } from './content/ics';
+import { pageMeta, renderHead } from './content/pageMeta';
+import { getWorks } from './content/works';
+import { DEFAULT_LANGUAGE, LANGUAGES, LANGUAGE_INFO, localizePath, splitLanguagePath } from './i18n';
+
+// Pages prerendered in every language; query params (views, filters) are left to the client
+const STATIC_PATHS = ['/', '/artista', '/obra', '/agenda', '/taller', '/encarrec'];
+
+const pagePaths = () => [...STATIC_PATHS, ...getWorks().map((w) => `/obra/${w.slug}`)];
+
+/** Every language-prefixed URL that gets its own prerendered HTML file. */
+export function prerenderUrls(): string[] {
+  return LANGUAGES.flatMap((language) => pagePaths().map((path) => localizePath(path, language)));
+}
+
+/** One entry per page: its URL in each language and the images it shows (root-relative). */
+export function sitemapEntries() {
+  const works = getWorks();
+  return pagePaths().map((path) => {
+    const work = works.find((w) => path === `/obra/${w.slug}`);
+    const share = pageMeta(path, DEFAULT_LANGUAGE).image;
+    return {
+      alternates: LANGUAGES.map((language) => ({
+        hreflang: LANGUAGE_INFO[language].locale,
+        path: localizePath(path, language),
+      })),
+      images: work ? work.albumImages.map((image) => image.src) : share ? [share.src] : [],
+    };
+  });
+}
+
+/** The agenda as a subscribable iCalendar feed per language, keyed by root-relative path. */
+export function calendarFeeds(origin: string) {
+  const works = getWorks();
+  const workName = (slug: string) => works.find((w) => w.slug === slug)?.meta.nom ?? slug;
+  return LANGUAGES.map((language) => ({
+    path: calendarFeedPath(language),
+    body: icsCalendar(getEvents(), { language, origin, workName }),
+  }));
+}
+
+/** Markup of `url` plus its head tags; `origin` makes canonical and share image URLs absolute. */
+export function render(url: string, origin: string) {
+  const { language, path } = splitLanguagePath(url);
+  if (!language) throw new Error(`Cannot prerender ${url}: it has no language prefix`);
+  const html = renderToString(
+    <React.StrictMode>
+      <StaticRouter location={url}>
+        <ThemeProvider>
+          <App />
+        </ThemeProvider>
+      </StaticRouter>
+    </React.StrictMode>
+  );
+  return { html, head: renderHead(path, language, origin), lang: LANGUAGE_INFO[language].locale };
+}
@@ -0,0 +1,112 @@
+import React, { useContext, useEffect, useMemo } from 'react';
+import {
+  DEFAULT_LANGUAGE,
+  LANGUAGE_INFO,
+  hreflangAlternates,
+  languageFromLocale,
+  localizePath,
+  type Language,
+} from './languages';
+import { messages, type Message, type MessageKey } from './messages';
+
+export {
+  DEFAULT_LANGUAGE,
+  LANGUAGES,
+  LANGUAGE_INFO,
+  hreflangAlternates,
+  languageFromLocale,
+  localizePath,
+  localized,
+  splitLanguagePath,
+  type Language,
+} from './languages';
+export type { MessageKey } from './messages';
+
+const STORAGE_KEY = 'pau-reig-language';
+
+export type MessageParams = Record<string, string | number>;
+
+export const LanguageContext = React.createContext<{ language: Language; setLanguage: (l: Language) => void }>({
+  language: DEFAULT_LANGUAGE,
+  setLanguage: () => {},
+});
+
+function selectForm(language: Language, message: Message, params?: MessageParams): string {
+  if (typeof message === 'string') return message;
+  const count = Number(params?.count ?? 0);
+  if (count === 0 && message.zero) return message.zero;
+  const rule = new Intl.PluralRules(LANGUAGE_INFO[language].locale).select(count);
+  return rule === 'one' ? message.one : message.other;
+}
+
+/** Looks up `key` in the catalog for `language` and fills in `{name}` placeholders from `params`. */
+export function translate(language: Language, key: MessageKey, params?: MessageParams): string {
+  const text = selectForm(language, messages[language][key], params);
+  if (!params) return text;
+  return text.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+}
+
+/** Capitalised month name, e.g. "Gener" / "January" / "Enero", for a zero-based month index. */
+export function formatMonth(language: Language, monthIndex: number): string {
+  const name = new Intl.DateTimeFormat(LANGUAGE_INFO[language].locale, { month: 'long' }).format(
+    new Date(2000, monthIndex, 1)
+  );
+  return name.charAt(0).toLocaleUpperCase(LANGUAGE_INFO[language].locale) + name.slice(1);
+}
+
+/**
+ * Language for a visitor arriving without one in the URL: the choice they made
+ * with the language toggle, else the first supported browser language.
+ */
+export function detectLanguage(): Language {
+  if (typeof window === 'undefined') return DEFAULT_LANGUAGE;
+  try {
+    const stored = languageFromLocale(localStorage.getItem(STORAGE_KEY));
+    if (stored) return stored;
+  } catch {}
+  const preferred = (navigator.languages?.length ? navigator.languages : [navigator.language])
+    .map((l) => languageFromLocale(l))
+    .find((l): l is Language => !!l);
+  return preferred ?? DEFAULT_LANGUAGE;
+}
+
+/** Remembers an explicit language choice so later visits to unprefixed URLs use it. */
+export function storeLanguage(language: Language) {
+  try {
+    localStorage.setItem(STORAGE_KEY, LANGUAGE_INFO[language].locale);
+  } catch {}
+}
+
+/**
+ * Keeps `<link rel="alternate" hreflang>` tags in the document head pointing at
+ * the same page in every language, replacing the ones of the prerendered page.
+ */
+export function useHreflangAlternates(path: string) {
+  useEffect(() => {
+    document.head.querySelectorAll('link[rel="alternate"][hreflang]').forEach((link) => link.remove());
+    const links = hreflangAlternates(path, window.location.origin).map(({ hreflang, href }) => {
+      const link = document.createElement('link');
+      link.rel = 'alternate';
+      link.hreflang = hreflang;
+      link.href = href;
+      return document.head.appendChild(link);
+    });
+    return () => links.forEach((link) => link.remove());
+  }, [path]);
+}
+
+/** Current language plus translation and formatting helpers bound to it. */
+export function useTranslation() {
+  const { language, setLanguage } = useContext(LanguageContext);
+  return useMemo(
+    () => ({
+      language,
+      setLanguage,
+      t: (key: MessageKey, params?: MessageParams) => translate(language, key, params),
+      formatMonth: (monthIndex: number) => formatMonth(language, monthIndex),
+      /** App path in the current language: localePath('/obra') → '/ca/obra' */
+      localePath: (path: string) => localizePath(path, language),
+    }),
+    [language, setLanguage]
+  );
+}
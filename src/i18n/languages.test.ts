@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { hreflangAlternates } from './languages';
+
+describe('hreflangAlternates', () => {
+  it('links the page in every language plus an unprefixed x-default', () => {
+    expect(hreflangAlternates('/obra/lleo', 'https://example.org')).toEqual([
+      { hreflang: 'ca', href: 'https://example.org/ca/obra/lleo' },
+      { hreflang: 'en', href: 'https://example.org/en/obra/lleo' },
+      { hreflang: 'es', href: 'https://example.org/es/obra/lleo' },
+      { hreflang: 'x-default', href: 'https://example.org/obra/lleo' },
+    ]);
+  });
+
+  it('points the home page at the bare prefixes', () => {
+    expect(hreflangAlternates('/', 'https://example.org').map((l) => l.href)).toEqual([
+      'https://example.org/ca',
+      'https://example.org/en',
+      'https://example.org/es',
+      'https://example.org/',
+    ]);
+  });
+});
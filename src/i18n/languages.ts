@@ -0,0 +1,62 @@
+export type Language = 'catala' | 'english' | 'castellano';
+
+export const LANGUAGES: Language[] = ['catala', 'english', 'castellano'];
+
+export const DEFAULT_LANGUAGE: Language = 'catala';
+
+/** `locale` doubles as the URL prefix (/ca/obra, /en/obra, /es/obra) and the hreflang code */
+export const LANGUAGE_INFO: Record<Language, { label: string; name: string; locale: string }> = {
+  catala: { label: 'CAT', name: 'Català', locale: 'ca' },
+  english: { label: 'EN', name: 'English', locale: 'en' },
+  castellano: { label: 'ES', name: 'Castellano', locale: 'es' },
+};
+
+/** Language for a locale or URL prefix such as "ca" or "es-ES", or null when unsupported. */
+export function languageFromLocale(locale?: string | null): Language | null {
+  const code = (locale ?? '').toLowerCase().split('-')[0];
+  return LANGUAGES.find((l) => LANGUAGE_INFO[l].locale === code) ?? null;
+}
+
+/** Splits "/en/obra/lleo" into its language and the unprefixed path "/obra/lleo". */
+export function splitLanguagePath(pathname: string): { language: Language | null; path: string } {
+  const match = pathname.match(/^\/([^/]+)(\/.*)?$/);
+  const language = match ? languageFromLocale(match[1]) : null;
+  if (!language || match![1] !== LANGUAGE_INFO[language].locale) return { language: null, path: pathname };
+  return { language, path: match![2] || '/' };
+}
+
+/** Prefixes an unprefixed app path with the language: "/obra" → "/ca/obra", "/" → "/ca". */
+export function localizePath(path: string, language: Language): string {
+  const prefix = `/${LANGUAGE_INFO[language].locale}`;
+  return path === '/' || path === '' ? prefix : prefix + (path.startsWith('/') ? path : `/${path}`);
+}
+
+/**
+ * The same page in every language for `<link rel="alternate" hreflang>`, plus
+ * an x-default at the unprefixed path, which picks the language itself.
+ */
+export function hreflangAlternates(path: string, origin: string): { hreflang: string; href: string }[] {
+  return [
+    ...LANGUAGES.map((l) => ({ hreflang: LANGUAGE_INFO[l].locale, href: origin + localizePath(path, l) })),
+    { hreflang: 'x-default', href: origin + path },
+  ];
+}
+
+// Order in which content (bio paragraphs, work descriptions) is looked up when
+// a text hasn't been written in the requested language yet
+const CONTENT_FALLBACKS: Record<Language, Language[]> = {
+  catala: ['catala', 'castellano', 'english'],
+  english: ['english', 'catala', 'castellano'],
+  castellano: ['castellano', 'catala', 'english'],
+};
+
+const isPresent = (value: unknown) =>
+  value !== undefined &&
+  value !== null &&
+  (typeof value === 'string' ? !!value.trim() : !Array.isArray(value) || value.length > 0);
+
+/** Picks the first non-empty value for `language`, following the content fallback order. */
+export function localized<T>(language: Language, byLanguage: Partial<Record<Language, T>>): T | undefined {
+  const found = CONTENT_FALLBACKS[language].find((l) => isPresent(byLanguage[l]));
+  return found ? byLanguage[found] : undefined;
+}
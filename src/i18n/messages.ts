@@ -0,0 +1,711 @@
+import type { Language } from './languages';
+
+/** Plain text with `{name}` placeholders, or plural forms selected by the `count` parameter. */
+export type Message = string | { zero?: string; one: string; other: string };
+
+// Catalan is the source catalog: its keys define MessageKey, and every other
+// language must provide exactly the same keys or the type-check fails.
+const catala = {
+  'nav.home': 'Inici',
+  'nav.artist': "L'Artista",
+  'nav.work': "L'Obra",
+  'nav.workshop': 'El Taller',
+  'nav.commission': 'Encàrrecs',
+  'nav.agenda': 'Agenda',
+  'nav.languageToggle': 'Idioma',
+  'nav.mobileMenuToggle': 'Obrir o tancar el menú',
+  'nav.themeToggle': 'Tema',
+  'nav.theme.light': 'Clar',
+  'nav.theme.dark': 'Fosc',
+  'nav.theme.system': 'Com el sistema',
+
+  'home.contact': 'Contacte',
+  'home.contactImageAlt': 'Pau Reig',
+  'home.featured': 'Obra destacada',
+  'home.featured.all': "Veure tota l'obra",
+
+  'contact.form.title': 'Escriu-nos',
+  'contact.form.name': 'Nom',
+  'contact.form.email': 'Correu electrònic',
+  'contact.form.organisation': 'Entitat o organització (opcional)',
+  'contact.form.message': 'Missatge',
+  'contact.form.website': 'Deixa aquest camp buit',
+  'contact.form.submit': 'Envia',
+  'contact.form.sending': 'Enviant…',
+  'contact.form.sent': 'Gràcies! Hem rebut el missatge i et respondrem ben aviat.',
+  'contact.form.sendAnother': 'Envia un altre missatge',
+  'contact.form.invalid': { one: 'Revisa el camp marcat.', other: 'Revisa els {count} camps marcats.' },
+  'contact.form.failed': "No s'ha pogut enviar el missatge. Torna-ho a provar d'aquí a una estona o escriu a {email}.",
+  'contact.form.rateLimited': "S'han enviat massa missatges seguits des d'aquesta connexió. Torna-ho a provar més tard.",
+  'contact.error.required': 'Aquest camp és obligatori.',
+  'contact.error.invalid': 'Escriu una adreça de correu vàlida.',
+  'contact.error.tooShort': 'Ha de tenir com a mínim {min} caràcters.',
+  'contact.error.tooLong': 'Pot tenir com a màxim {max} caràcters.',
+
+  'commission.title': 'Encarrega una figura',
+  'commission.lead': "Explica'ns què necessita la vostra colla o el vostre poble i us farem arribar una proposta.",
+  'commission.steps': 'Passos de la sol·licitud',
+  'commission.stepOf': 'Pas {index} de {count}',
+  'commission.step.figure': 'La figura',
+  'commission.step.references': 'Referències',
+  'commission.step.schedule': 'Calendari i pressupost',
+  'commission.step.entity': 'Entitat',
+  'commission.step.summary': 'Resum',
+  'commission.optional': 'opcional',
+  'commission.field.figure': 'Tipus de figura',
+  'commission.field.height': 'Alçada aproximada',
+  'commission.field.heightUnit': "Unitat de l'alçada",
+  'commission.field.weight': 'Pes màxim (kg)',
+  'commission.field.carrying': 'Com es portarà',
+  'commission.field.festival': "Festa o acte on s'estrenarà",
+  'commission.field.deadline': 'Data de lliurament',
+  'commission.field.budget': 'Pressupost orientatiu',
+  'commission.field.entity': 'Colla, entitat o ajuntament',
+  'commission.field.contactName': 'Persona de contacte',
+  'commission.field.email': 'Correu electrònic',
+  'commission.field.phone': 'Telèfon',
+  'commission.field.town': 'Població',
+  'commission.field.notes': 'Altres detalls',
+  'commission.carrying.inside': "Per dins, amb el portador a l'interior",
+  'commission.carrying.head': 'Al cap',
+  'commission.carrying.harness': 'Amb arnès o a les espatlles',
+  'commission.carrying.wheels': 'Sobre rodes',
+  'commission.carrying.static': 'Només per exposar',
+  'commission.budget.lt3k': 'Menys de 3.000 €',
+  'commission.budget.3k-6k': 'De 3.000 a 6.000 €',
+  'commission.budget.6k-12k': 'De 6.000 a 12.000 €',
+  'commission.budget.12k-25k': 'De 12.000 a 25.000 €',
+  'commission.budget.gt25k': 'Més de 25.000 €',
+  'commission.budget.open': 'Encara no ho sabem',
+  'commission.references.help': "Tria fins a {max} obres del taller que s'assemblin al que teniu al cap (opcional).",
+  'commission.references.all': 'Totes',
+  'commission.references.count': { zero: 'Cap obra triada', one: '1 obra triada', other: '{count} obres triades' },
+  'commission.deadline.help': "Una figura d'aquest tipus necessita almenys {weeks} setmanes de feina: la primera data possible és el {date}.",
+  'commission.error.required': 'Aquest camp és obligatori.',
+  'commission.error.invalid': 'El valor no és vàlid.',
+  'commission.error.tooSoon': 'No hi ha prou temps per fer-la: tria una data a partir de la indicada.',
+  'commission.error.outOfRange': "Ha d'estar entre {min} i {max}.",
+  'commission.error.tooMany': 'Com a màxim {max} obres.',
+  'commission.summary.reference': 'Referència',
+  'commission.summary.date': 'Data',
+  'commission.back': 'Enrere',
+  'commission.next': 'Continua',
+  'commission.print': 'Imprimeix el resum',
+  'commission.submit': 'Envia la sol·licitud',
+  'commission.sent': 'Hem rebut la sol·licitud {reference}. Us respondrem amb una proposta en pocs dies.',
+  'commission.failed': "No s'ha pogut enviar la sol·licitud. L'esborrany queda desat: torna-ho a provar més tard o escriu a {email}.",
+  'commission.draftRestored': 'Hem recuperat la sol·licitud que vas deixar a mitges.',
+  'commission.discardDraft': 'Comença de nou',
+  'commission.newRequest': 'Fes una altra sol·licitud',
+
+  'artist.title': "L'Artista",
+  'artist.lead': 'Biografia i trajectòria',
+  'artist.photoAlt': "L'artista",
+
+  'artist.cv.title': 'Trajectòria',
+  'artist.cv.filter': 'Mostrar',
+  'artist.cv.all': 'Tot',
+  'artist.cv.section.education': 'Formació',
+  'artist.cv.section.exhibition': 'Exposicions',
+  'artist.cv.section.award': 'Premis i reconeixements',
+  'artist.cv.section.press': 'Premsa',
+  'artist.cv.more': 'Més informació',
+  'artist.press.read': "Llegir l'article",
+  'artist.press.clipping': 'Retall (PDF)',
+
+  'workshop.title': 'El Taller',
+  'workshop.lead': 'Espai de creació',
+  'workshop.featuredAlt': 'El taller',
+  'workshop.album': 'Àlbum del taller',
+  'workshop.photoAlt': 'Foto del taller {index}',
+
+  'work.title': "L'Obra",
+  'work.viewMode': 'Mode de visualització',
+  'work.view.grid': 'Graella',
+  'work.view.list': 'Línies',
+  'work.view.map': 'Mapa',
+  'work.view.timeline': 'Cronològic',
+  'work.photoCount': { one: '{count} foto', other: '{count} fotos' },
+  'work.filters': 'Cerca i filtres',
+  'work.search': 'Cerca',
+  'work.search.placeholder': 'Nom, població o descripció',
+  'work.filter.city': 'Població',
+  'work.filter.collection': 'Col·lecció',
+  'work.filter.typology': 'Tipologia',
+  'work.filter.material': 'Material',
+  'work.filter.from': 'Des de',
+  'work.filter.to': 'Fins a',
+  'work.filter.anyYear': 'Qualsevol any',
+  'work.filter.clear': 'Esborrar filtres',
+  'work.sort': 'Ordenar',
+  'work.sort.featured': 'Destacades',
+  'work.sort.newest': 'Més recents',
+  'work.sort.oldest': 'Més antigues',
+  'work.sort.az': 'A–Z',
+  'work.resultCount': { zero: 'Cap obra', one: '{count} obra', other: '{count} obres' },
+  'work.noResults': 'Cap obra coincideix amb la cerca.',
+  'work.close': 'Tancar',
+  'work.previous': 'Anterior',
+  'work.next': 'Següent',
+  'work.browse': 'Navegar entre obres',
+  'work.previousWork': 'Obra anterior',
+  'work.nextWork': 'Obra següent',
+  'work.previousWork.shortcut': 'Obra anterior (Maj + ←)',
+  'work.nextWork.shortcut': 'Obra següent (Maj + →)',
+  'work.position': '{index} de {count}',
+  'work.related': 'Obres relacionades',
+  'work.notFound.title': 'Obra no trobada',
+  'work.notFound.text': "No hem trobat cap obra amb aquesta adreça. Potser l'enllaç és antic o està mal escrit.",
+  'work.notFound.back': "Tornar a L'Obra",
+  'work.sheet.title': 'Fitxa tècnica',
+  'work.sheet.typology': 'Tipologia',
+  'work.sheet.materials': 'Materials',
+  'work.sheet.height': 'Alçada',
+  'work.sheet.weight': 'Pes',
+  'work.sheet.commissioner': 'Encàrrec',
+  'work.sheet.collaborators': 'Col·laboradors',
+  'work.typology.gegant': 'Gegant',
+  'work.typology.capgros': 'Capgròs',
+  'work.typology.nan': 'Nan',
+  'work.typology.bestiari': 'Bestiari',
+  'work.typology.drac': 'Drac',
+  'work.typology.cavallet': 'Cavallet',
+  'work.typology.altre': 'Altres',
+
+  'work.map.label': 'Mapa de les obres',
+  'work.map.open': "Veure l'obra",
+  'work.map.cluster': { one: '{count} obra: {names}', other: '{count} obres: {names}' },
+
+  'agenda.title': 'Agenda',
+  'agenda.lead': 'On veure les figures al carrer',
+  'agenda.upcoming': 'Properes actuacions',
+  'agenda.past': 'Actuacions passades',
+  'agenda.noUpcoming': 'Ara mateix no hi ha cap actuació anunciada.',
+  'agenda.figures': 'Figures',
+  'agenda.download': 'Afegir al calendari (.ics)',
+  'agenda.programme': 'Programa de la festa',
+  'agenda.subscribe.title': 'Subscriu-te al calendari',
+  'agenda.subscribe.text': "Afegeix aquesta adreça a l'aplicació de calendari i les noves actuacions hi apareixeran soles.",
+  'agenda.subscribe.link': "Calendari de l'agenda (.ics)",
+  'agenda.ics.figures': 'Figures: {names}',
+  'agenda.ics.calendarName': 'Pau Reig - Art · Agenda',
+
+  'work.timeline.zoom': 'Escala',
+  'work.timeline.years': 'Anys',
+  'work.timeline.months': 'Mesos',
+  'work.timeline.noMonth': 'Sense mes',
+  'work.timeline.noDate': 'Sense data',
+  'work.timeline.gap': '{range}: cap obra',
+  'work.timeline.keys': 'Amb les fletxes amunt i avall es recorre la línia; dreta i esquerra obren i tanquen un any.',
+
+  'work.appearances': 'Properes actuacions',
+  'work.appearances.all': "Tota l'agenda",
+  'work.map.show': 'Mostrar al mapa',
+  'work.map.show.works': 'Totes les obres',
+  'work.map.show.nextMonth': 'Actuacions del pròxim mes',
+  'work.map.noEvents': 'Cap actuació anunciada per al pròxim mes.',
+
+  'work.process.title': 'Procés',
+  'work.process.stage.sketch': 'Esbós',
+  'work.process.stage.modelling': 'Modelatge',
+  'work.process.stage.mould': 'Motlle',
+  'work.process.stage.painting': 'Pintura',
+  'work.process.stage.finished': 'Acabada',
+  'work.process.stage.street': 'Al carrer',
+  'work.process.imageAlt': '{name}: {stage}',
+  'work.process.compare': 'Abans i després',
+  'work.process.angle': 'Angle',
+  'work.process.before': 'Abans',
+  'work.process.after': 'Després',
+  'work.process.slider': 'Comparació entre {before} i {after}',
+
+  'meta.siteName': 'Pau Reig - Art',
+  'meta.home.description': 'Pau Reig, artista de Solsona que crea gegants, capgrossos i bestiari festiu per a colles i pobles de Catalunya.',
+  'meta.artist.description': "Biografia i trajectòria de Pau Reig, artista d'imatgeria festiva nascut a Solsona el 1997.",
+  'meta.work.description': 'Gegants, capgrossos i bestiari de Pau Reig: fotografies, mapa i cronologia de totes les obres.',
+  'meta.workshop.description': "El taller de Pau Reig als afores de Solsona, l'espai on neixen les figures.",
+  'meta.commission.description': 'Demana un gegant, un capgròs o una peça de bestiari a Pau Reig: tipus de figura, mides, calendari i pressupost.',
+  'meta.agenda.description': "Properes actuacions dels gegants, capgrossos i bestiari de Pau Reig a les festes de Catalunya, amb calendari per subscriure-s'hi.",
+
+  'lightbox.label': "Visor d'imatges",
+  'lightbox.open': 'Ampliar la imatge',
+  'image.position': 'Imatge {index} de {count}',
+  'lightbox.close': 'Tancar el visor',
+  'lightbox.previous': 'Imatge anterior',
+  'lightbox.next': 'Imatge següent',
+  'lightbox.zoomIn': 'Apropar',
+  'lightbox.zoomOut': 'Allunyar',
+  'lightbox.thumbnails': 'Miniatures',
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof catala;
+
+export type Messages = Record<MessageKey, Message>;
+
+const english: Messages = {
+  'nav.home': 'Home',
+  'nav.artist': 'The Artist',
+  'nav.work': 'The Work',
+  'nav.workshop': 'The Workshop',
+  'nav.commission': 'Commissions',
+  'nav.agenda': 'Agenda',
+  'nav.languageToggle': 'Language',
+  'nav.mobileMenuToggle': 'Toggle mobile menu',
+  'nav.themeToggle': 'Theme',
+  'nav.theme.light': 'Light',
+  'nav.theme.dark': 'Dark',
+  'nav.theme.system': 'Match the system',
+
+  'home.contact': 'Contact',
+  'home.contactImageAlt': 'Pau Reig',
+  'home.featured': 'Featured work',
+  'home.featured.all': 'See all the work',
+
+  'contact.form.title': 'Write to us',
+  'contact.form.name': 'Name',
+  'contact.form.email': 'Email',
+  'contact.form.organisation': 'Group or organisation (optional)',
+  'contact.form.message': 'Message',
+  'contact.form.website': 'Leave this field empty',
+  'contact.form.submit': 'Send',
+  'contact.form.sending': 'Sending…',
+  'contact.form.sent': 'Thank you! We have received your message and will reply soon.',
+  'contact.form.sendAnother': 'Send another message',
+  'contact.form.invalid': { one: 'Please check the highlighted field.', other: 'Please check the {count} highlighted fields.' },
+  'contact.form.failed': 'Your message could not be sent. Please try again in a while or write to {email}.',
+  'contact.form.rateLimited': 'Too many messages have been sent from this connection. Please try again later.',
+  'contact.error.required': 'This field is required.',
+  'contact.error.invalid': 'Please enter a valid email address.',
+  'contact.error.tooShort': 'Use at least {min} characters.',
+  'contact.error.tooLong': 'Use at most {max} characters.',
+
+  'commission.title': 'Commission a figure',
+  'commission.lead': 'Tell us what your group or town needs and we will send you a proposal.',
+  'commission.steps': 'Request steps',
+  'commission.stepOf': 'Step {index} of {count}',
+  'commission.step.figure': 'The figure',
+  'commission.step.references': 'References',
+  'commission.step.schedule': 'Schedule and budget',
+  'commission.step.entity': 'Your group',
+  'commission.step.summary': 'Summary',
+  'commission.optional': 'optional',
+  'commission.field.figure': 'Type of figure',
+  'commission.field.height': 'Approximate height',
+  'commission.field.heightUnit': 'Height unit',
+  'commission.field.weight': 'Maximum weight (kg)',
+  'commission.field.carrying': 'How it will be carried',
+  'commission.field.festival': 'Festival or event where it will debut',
+  'commission.field.deadline': 'Delivery date',
+  'commission.field.budget': 'Approximate budget',
+  'commission.field.entity': 'Group, association or town council',
+  'commission.field.contactName': 'Contact person',
+  'commission.field.email': 'Email',
+  'commission.field.phone': 'Phone',
+  'commission.field.town': 'Town',
+  'commission.field.notes': 'Other details',
+  'commission.carrying.inside': 'From inside, with the bearer within the figure',
+  'commission.carrying.head': 'On the head',
+  'commission.carrying.harness': 'With a harness or on the shoulders',
+  'commission.carrying.wheels': 'On wheels',
+  'commission.carrying.static': 'Display only',
+  'commission.budget.lt3k': 'Under €3,000',
+  'commission.budget.3k-6k': '€3,000 to €6,000',
+  'commission.budget.6k-12k': '€6,000 to €12,000',
+  'commission.budget.12k-25k': '€12,000 to €25,000',
+  'commission.budget.gt25k': 'Over €25,000',
+  'commission.budget.open': 'Not sure yet',
+  'commission.references.help': 'Pick up to {max} works from the workshop that resemble what you have in mind (optional).',
+  'commission.references.all': 'All',
+  'commission.references.count': { zero: 'No works picked', one: '1 work picked', other: '{count} works picked' },
+  'commission.deadline.help': 'A figure of this kind needs at least {weeks} weeks of work: the earliest possible date is {date}.',
+  'commission.error.required': 'This field is required.',
+  'commission.error.invalid': 'This value is not valid.',
+  'commission.error.tooSoon': 'There is not enough time to make it: pick a date from the one shown onwards.',
+  'commission.error.outOfRange': 'It must be between {min} and {max}.',
+  'commission.error.tooMany': 'At most {max} works.',
+  'commission.summary.reference': 'Reference',
+  'commission.summary.date': 'Date',
+  'commission.back': 'Back',
+  'commission.next': 'Continue',
+  'commission.print': 'Print summary',
+  'commission.submit': 'Send request',
+  'commission.sent': 'We have received request {reference}. We will reply with a proposal within a few days.',
+  'commission.failed': 'The request could not be sent. Your draft is saved: please try again later or write to {email}.',
+  'commission.draftRestored': 'We have restored the request you left unfinished.',
+  'commission.discardDraft': 'Start over',
+  'commission.newRequest': 'Make another request',
+
+  'artist.title': 'The Artist',
+  'artist.lead': 'Biography and background',
+  'artist.photoAlt': 'The artist',
+
+  'artist.cv.title': 'Background',
+  'artist.cv.filter': 'Show',
+  'artist.cv.all': 'All',
+  'artist.cv.section.education': 'Education',
+  'artist.cv.section.exhibition': 'Exhibitions',
+  'artist.cv.section.award': 'Awards',
+  'artist.cv.section.press': 'Press',
+  'artist.cv.more': 'More information',
+  'artist.press.read': 'Read the article',
+  'artist.press.clipping': 'Clipping (PDF)',
+
+  'workshop.title': 'The Workshop',
+  'workshop.lead': 'Creation space',
+  'workshop.featuredAlt': 'The workshop',
+  'workshop.album': 'Workshop album',
+  'workshop.photoAlt': 'Workshop photo {index}',
+
+  'work.title': 'The Work',
+  'work.viewMode': 'View mode',
+  'work.view.grid': 'Grid',
+  'work.view.list': 'List',
+  'work.view.map': 'Map',
+  'work.view.timeline': 'Timeline',
+  'work.photoCount': { one: '{count} photo', other: '{count} photos' },
+  'work.filters': 'Search and filters',
+  'work.search': 'Search',
+  'work.search.placeholder': 'Name, town or description',
+  'work.filter.city': 'Town',
+  'work.filter.collection': 'Collection',
+  'work.filter.typology': 'Type',
+  'work.filter.material': 'Material',
+  'work.filter.from': 'From',
+  'work.filter.to': 'To',
+  'work.filter.anyYear': 'Any year',
+  'work.filter.clear': 'Clear filters',
+  'work.sort': 'Sort by',
+  'work.sort.featured': 'Featured',
+  'work.sort.newest': 'Newest',
+  'work.sort.oldest': 'Oldest',
+  'work.sort.az': 'A–Z',
+  'work.resultCount': { zero: 'No works', one: '{count} work', other: '{count} works' },
+  'work.noResults': 'No works match your search.',
+  'work.close': 'Close',
+  'work.previous': 'Previous',
+  'work.next': 'Next',
+  'work.browse': 'Browse works',
+  'work.previousWork': 'Previous work',
+  'work.nextWork': 'Next work',
+  'work.previousWork.shortcut': 'Previous work (Shift + ←)',
+  'work.nextWork.shortcut': 'Next work (Shift + →)',
+  'work.position': '{index} of {count}',
+  'work.related': 'Related works',
+  'work.notFound.title': 'Work not found',
+  'work.notFound.text': 'We could not find a work at this address. The link may be outdated or mistyped.',
+  'work.notFound.back': 'Back to The Work',
+  'work.sheet.title': 'Technical sheet',
+  'work.sheet.typology': 'Type',
+  'work.sheet.materials': 'Materials',
+  'work.sheet.height': 'Height',
+  'work.sheet.weight': 'Weight',
+  'work.sheet.commissioner': 'Commissioned by',
+  'work.sheet.collaborators': 'Collaborators',
+  'work.typology.gegant': 'Giant',
+  'work.typology.capgros': 'Big head',
+  'work.typology.nan': 'Dwarf',
+  'work.typology.bestiari': 'Festive beast',
+  'work.typology.drac': 'Dragon',
+  'work.typology.cavallet': 'Hobby horse',
+  'work.typology.altre': 'Other',
+
+  'work.map.label': 'Map of the works',
+  'work.map.open': 'View work',
+  'work.map.cluster': { one: '{count} work: {names}', other: '{count} works: {names}' },
+
+  'agenda.title': 'Agenda',
+  'agenda.lead': 'Where to see the figures on the street',
+  'agenda.upcoming': 'Upcoming appearances',
+  'agenda.past': 'Past appearances',
+  'agenda.noUpcoming': 'No appearances are announced right now.',
+  'agenda.figures': 'Figures',
+  'agenda.download': 'Add to calendar (.ics)',
+  'agenda.programme': 'Festival programme',
+  'agenda.subscribe.title': 'Subscribe to the calendar',
+  'agenda.subscribe.text': 'Add this address to your calendar app and new appearances will show up on their own.',
+  'agenda.subscribe.link': 'Agenda calendar (.ics)',
+  'agenda.ics.figures': 'Figures: {names}',
+  'agenda.ics.calendarName': 'Pau Reig - Art · Agenda',
+
+  'work.timeline.zoom': 'Scale',
+  'work.timeline.years': 'Years',
+  'work.timeline.months': 'Months',
+  'work.timeline.noMonth': 'Month unknown',
+  'work.timeline.noDate': 'Date unknown',
+  'work.timeline.gap': '{range}: no works',
+  'work.timeline.keys': 'Up and down arrows move along the timeline; right and left open and close a year.',
+
+  'work.appearances': 'Upcoming appearances',
+  'work.appearances.all': 'Full agenda',
+  'work.map.show': 'Show on the map',
+  'work.map.show.works': 'All works',
+  'work.map.show.nextMonth': "Next month's appearances",
+  'work.map.noEvents': 'No appearances announced for the next month.',
+
+  'work.process.title': 'Process',
+  'work.process.stage.sketch': 'Sketch',
+  'work.process.stage.modelling': 'Modelling',
+  'work.process.stage.mould': 'Mould',
+  'work.process.stage.painting': 'Painting',
+  'work.process.stage.finished': 'Finished',
+  'work.process.stage.street': 'On the street',
+  'work.process.imageAlt': '{name}: {stage}',
+  'work.process.compare': 'Before and after',
+  'work.process.angle': 'Angle',
+  'work.process.before': 'Before',
+  'work.process.after': 'After',
+  'work.process.slider': 'Comparison between {before} and {after}',
+
+  'meta.siteName': 'Pau Reig - Art',
+  'meta.home.description': 'Pau Reig is an artist from Solsona who creates giants, big heads and festive beasts for towns and groups across Catalonia.',
+  'meta.artist.description': 'Biography and career of Pau Reig, a festive imagery artist born in Solsona in 1997.',
+  'meta.work.description': 'Giants, big heads and festive beasts by Pau Reig: photos, map and timeline of every work.',
+  'meta.workshop.description': 'Pau Reig’s workshop on the outskirts of Solsona, where the figures are made.',
+  'meta.commission.description': 'Commission a giant, a big head or a festive beast from Pau Reig: figure type, size, schedule and budget.',
+  'meta.agenda.description': "Upcoming appearances of Pau Reig's giants, big heads and festive beasts at Catalan festivals, with a calendar to subscribe to.",
+
+  'lightbox.label': 'Image viewer',
+  'lightbox.open': 'Enlarge image',
+  'image.position': 'Image {index} of {count}',
+  'lightbox.close': 'Close viewer',
+  'lightbox.previous': 'Previous image',
+  'lightbox.next': 'Next image',
+  'lightbox.zoomIn': 'Zoom in',
+  'lightbox.zoomOut': 'Zoom out',
+  'lightbox.thumbnails': 'Thumbnails',
+};
+
+const castellano: Messages = {
+  'nav.home': 'Inicio',
+  'nav.artist': 'El Artista',
+  'nav.work': 'La Obra',
+  'nav.workshop': 'El Taller',
+  'nav.commission': 'Encargos',
+  'nav.agenda': 'Agenda',
+  'nav.languageToggle': 'Idioma',
+  'nav.mobileMenuToggle': 'Abrir o cerrar el menú',
+  'nav.themeToggle': 'Tema',
+  'nav.theme.light': 'Claro',
+  'nav.theme.dark': 'Oscuro',
+  'nav.theme.system': 'Como el sistema',
+
+  'home.contact': 'Contacto',
+  'home.contactImageAlt': 'Pau Reig',
+  'home.featured': 'Obra destacada',
+  'home.featured.all': 'Ver toda la obra',
+
+  'contact.form.title': 'Escríbenos',
+  'contact.form.name': 'Nombre',
+  'contact.form.email': 'Correo electrónico',
+  'contact.form.organisation': 'Entidad u organización (opcional)',
+  'contact.form.message': 'Mensaje',
+  'contact.form.website': 'Deja este campo vacío',
+  'contact.form.submit': 'Enviar',
+  'contact.form.sending': 'Enviando…',
+  'contact.form.sent': '¡Gracias! Hemos recibido tu mensaje y te responderemos muy pronto.',
+  'contact.form.sendAnother': 'Enviar otro mensaje',
+  'contact.form.invalid': { one: 'Revisa el campo marcado.', other: 'Revisa los {count} campos marcados.' },
+  'contact.form.failed': 'No se ha podido enviar el mensaje. Vuelve a intentarlo dentro de un rato o escribe a {email}.',
+  'contact.form.rateLimited': 'Se han enviado demasiados mensajes seguidos desde esta conexión. Inténtalo más tarde.',
+  'contact.error.required': 'Este campo es obligatorio.',
+  'contact.error.invalid': 'Escribe una dirección de correo válida.',
+  'contact.error.tooShort': 'Debe tener como mínimo {min} caracteres.',
+  'contact.error.tooLong': 'Puede tener como máximo {max} caracteres.',
+
+  'commission.title': 'Encarga una figura',
+  'commission.lead': 'Cuéntanos qué necesita vuestra colla o vuestro pueblo y os haremos llegar una propuesta.',
+  'commission.steps': 'Pasos de la solicitud',
+  'commission.stepOf': 'Paso {index} de {count}',
+  'commission.step.figure': 'La figura',
+  'commission.step.references': 'Referencias',
+  'commission.step.schedule': 'Calendario y presupuesto',
+  'commission.step.entity': 'Entidad',
+  'commission.step.summary': 'Resumen',
+  'commission.optional': 'opcional',
+  'commission.field.figure': 'Tipo de figura',
+  'commission.field.height': 'Altura aproximada',
+  'commission.field.heightUnit': 'Unidad de la altura',
+  'commission.field.weight': 'Peso máximo (kg)',
+  'commission.field.carrying': 'Cómo se llevará',
+  'commission.field.festival': 'Fiesta o acto donde se estrenará',
+  'commission.field.deadline': 'Fecha de entrega',
+  'commission.field.budget': 'Presupuesto orientativo',
+  'commission.field.entity': 'Colla, entidad o ayuntamiento',
+  'commission.field.contactName': 'Persona de contacto',
+  'commission.field.email': 'Correo electrónico',
+  'commission.field.phone': 'Teléfono',
+  'commission.field.town': 'Población',
+  'commission.field.notes': 'Otros detalles',
+  'commission.carrying.inside': 'Por dentro, con el portador en el interior',
+  'commission.carrying.head': 'En la cabeza',
+  'commission.carrying.harness': 'Con arnés o sobre los hombros',
+  'commission.carrying.wheels': 'Sobre ruedas',
+  'commission.carrying.static': 'Solo para exponer',
+  'commission.budget.lt3k': 'Menos de 3.000 €',
+  'commission.budget.3k-6k': 'De 3.000 a 6.000 €',
+  'commission.budget.6k-12k': 'De 6.000 a 12.000 €',
+  'commission.budget.12k-25k': 'De 12.000 a 25.000 €',
+  'commission.budget.gt25k': 'Más de 25.000 €',
+  'commission.budget.open': 'Todavía no lo sabemos',
+  'commission.references.help': 'Elige hasta {max} obras del taller que se parezcan a lo que tenéis en mente (opcional).',
+  'commission.references.all': 'Todas',
+  'commission.references.count': { zero: 'Ninguna obra elegida', one: '1 obra elegida', other: '{count} obras elegidas' },
+  'commission.deadline.help': 'Una figura de este tipo necesita al menos {weeks} semanas de trabajo: la primera fecha posible es el {date}.',
+  'commission.error.required': 'Este campo es obligatorio.',
+  'commission.error.invalid': 'El valor no es válido.',
+  'commission.error.tooSoon': 'No hay tiempo suficiente para hacerla: elige una fecha a partir de la indicada.',
+  'commission.error.outOfRange': 'Debe estar entre {min} y {max}.',
+  'commission.error.tooMany': 'Como máximo {max} obras.',
+  'commission.summary.reference': 'Referencia',
+  'commission.summary.date': 'Fecha',
+  'commission.back': 'Atrás',
+  'commission.next': 'Continuar',
+  'commission.print': 'Imprimir el resumen',
+  'commission.submit': 'Enviar la solicitud',
+  'commission.sent': 'Hemos recibido la solicitud {reference}. Os responderemos con una propuesta en pocos días.',
+  'commission.failed': 'No se ha podido enviar la solicitud. El borrador queda guardado: inténtalo más tarde o escribe a {email}.',
+  'commission.draftRestored': 'Hemos recuperado la solicitud que dejaste a medias.',
+  'commission.discardDraft': 'Empezar de nuevo',
+  'commission.newRequest': 'Hacer otra solicitud',
+
+  'artist.title': 'El Artista',
+  'artist.lead': 'Biografía y trayectoria',
+  'artist.photoAlt': 'El artista',
+
+  'artist.cv.title': 'Trayectoria',
+  'artist.cv.filter': 'Mostrar',
+  'artist.cv.all': 'Todo',
+  'artist.cv.section.education': 'Formación',
+  'artist.cv.section.exhibition': 'Exposiciones',
+  'artist.cv.section.award': 'Premios y reconocimientos',
+  'artist.cv.section.press': 'Prensa',
+  'artist.cv.more': 'Más información',
+  'artist.press.read': 'Leer el artículo',
+  'artist.press.clipping': 'Recorte (PDF)',
+
+  'workshop.title': 'El Taller',
+  'workshop.lead': 'Espacio de creación',
+  'workshop.featuredAlt': 'El taller',
+  'workshop.album': 'Álbum del taller',
+  'workshop.photoAlt': 'Foto del taller {index}',
+
+  'work.title': 'La Obra',
+  'work.viewMode': 'Modo de visualización',
+  'work.view.grid': 'Cuadrícula',
+  'work.view.list': 'Lista',
+  'work.view.map': 'Mapa',
+  'work.view.timeline': 'Cronológico',
+  'work.photoCount': { one: '{count} foto', other: '{count} fotos' },
+  'work.filters': 'Búsqueda y filtros',
+  'work.search': 'Buscar',
+  'work.search.placeholder': 'Nombre, población o descripción',
+  'work.filter.city': 'Población',
+  'work.filter.collection': 'Colección',
+  'work.filter.typology': 'Tipología',
+  'work.filter.material': 'Material',
+  'work.filter.from': 'Desde',
+  'work.filter.to': 'Hasta',
+  'work.filter.anyYear': 'Cualquier año',
+  'work.filter.clear': 'Borrar filtros',
+  'work.sort': 'Ordenar',
+  'work.sort.featured': 'Destacadas',
+  'work.sort.newest': 'Más recientes',
+  'work.sort.oldest': 'Más antiguas',
+  'work.sort.az': 'A–Z',
+  'work.resultCount': { zero: 'Ninguna obra', one: '{count} obra', other: '{count} obras' },
+  'work.noResults': 'Ninguna obra coincide con la búsqueda.',
+  'work.close': 'Cerrar',
+  'work.previous': 'Anterior',
+  'work.next': 'Siguiente',
+  'work.browse': 'Navegar entre obras',
+  'work.previousWork': 'Obra anterior',
+  'work.nextWork': 'Obra siguiente',
+  'work.previousWork.shortcut': 'Obra anterior (Mayús + ←)',
+  'work.nextWork.shortcut': 'Obra siguiente (Mayús + →)',
+  'work.position': '{index} de {count}',
+  'work.related': 'Obras relacionadas',
+  'work.notFound.title': 'Obra no encontrada',
+  'work.notFound.text': 'No hemos encontrado ninguna obra en esta dirección. Puede que el enlace sea antiguo o esté mal escrito.',
+  'work.notFound.back': 'Volver a La Obra',
+  'work.sheet.title': 'Ficha técnica',
+  'work.sheet.typology': 'Tipología',
+  'work.sheet.materials': 'Materiales',
+  'work.sheet.height': 'Altura',
+  'work.sheet.weight': 'Peso',
+  'work.sheet.commissioner': 'Encargo',
+  'work.sheet.collaborators': 'Colaboradores',
+  'work.typology.gegant': 'Gigante',
+  'work.typology.capgros': 'Cabezudo',
+  'work.typology.nan': 'Enano',
+  'work.typology.bestiari': 'Bestiario',
+  'work.typology.drac': 'Dragón',
+  'work.typology.cavallet': 'Caballito',
+  'work.typology.altre': 'Otros',
+
+  'work.map.label': 'Mapa de las obras',
+  'work.map.open': 'Ver la obra',
+  'work.map.cluster': { one: '{count} obra: {names}', other: '{count} obras: {names}' },
+
+  'agenda.title': 'Agenda',
+  'agenda.lead': 'Dónde ver las figuras en la calle',
+  'agenda.upcoming': 'Próximas actuaciones',
+  'agenda.past': 'Actuaciones pasadas',
+  'agenda.noUpcoming': 'Ahora mismo no hay ninguna actuación anunciada.',
+  'agenda.figures': 'Figuras',
+  'agenda.download': 'Añadir al calendario (.ics)',
+  'agenda.programme': 'Programa de la fiesta',
+  'agenda.subscribe.title': 'Suscríbete al calendario',
+  'agenda.subscribe.text': 'Añade esta dirección a tu aplicación de calendario y las nuevas actuaciones aparecerán solas.',
+  'agenda.subscribe.link': 'Calendario de la agenda (.ics)',
+  'agenda.ics.figures': 'Figuras: {names}',
+  'agenda.ics.calendarName': 'Pau Reig - Art · Agenda',
+
+  'work.timeline.zoom': 'Escala',
+  'work.timeline.years': 'Años',
+  'work.timeline.months': 'Meses',
+  'work.timeline.noMonth': 'Sin mes',
+  'work.timeline.noDate': 'Sin fecha',
+  'work.timeline.gap': '{range}: ninguna obra',
+  'work.timeline.keys': 'Con las flechas arriba y abajo se recorre la línea; derecha e izquierda abren y cierran un año.',
+
+  'work.appearances': 'Próximas actuaciones',
+  'work.appearances.all': 'Toda la agenda',
+  'work.map.show': 'Mostrar en el mapa',
+  'work.map.show.works': 'Todas las obras',
+  'work.map.show.nextMonth': 'Actuaciones del próximo mes',
+  'work.map.noEvents': 'Ninguna actuación anunciada para el próximo mes.',
+
+  'work.process.title': 'Proceso',
+  'work.process.stage.sketch': 'Boceto',
+  'work.process.stage.modelling': 'Modelado',
+  'work.process.stage.mould': 'Molde',
+  'work.process.stage.painting': 'Pintura',
+  'work.process.stage.finished': 'Acabada',
+  'work.process.stage.street': 'En la calle',
+  'work.process.imageAlt': '{name}: {stage}',
+  'work.process.compare': 'Antes y después',
+  'work.process.angle': 'Ángulo',
+  'work.process.before': 'Antes',
+  'work.process.after': 'Después',
+  'work.process.slider': 'Comparación entre {before} y {after}',
+
+  'meta.siteName': 'Pau Reig - Art',
+  'meta.home.description': 'Pau Reig, artista de Solsona que crea gigantes, cabezudos y bestiario festivo para collas y pueblos de Cataluña.',
+  'meta.artist.description': 'Biografía y trayectoria de Pau Reig, artista de imaginería festiva nacido en Solsona en 1997.',
+  'meta.work.description': 'Gigantes, cabezudos y bestiario de Pau Reig: fotografías, mapa y cronología de todas las obras.',
+  'meta.workshop.description': 'El taller de Pau Reig en las afueras de Solsona, el espacio donde nacen las figuras.',
+  'meta.commission.description': 'Encarga un gigante, un cabezudo o una pieza de bestiario a Pau Reig: tipo de figura, medidas, calendario y presupuesto.',
+  'meta.agenda.description': 'Próximas actuaciones de los gigantes, cabezudos y bestiario de Pau Reig en las fiestas de Cataluña, con calendario para suscribirse.',
+
+  'lightbox.label': 'Visor de imágenes',
+  'lightbox.open': 'Ampliar la imagen',
+  'image.position': 'Imagen {index} de {count}',
+  'lightbox.close': 'Cerrar el visor',
+  'lightbox.previous': 'Imagen anterior',
+  'lightbox.next': 'Imagen siguiente',
+  'lightbox.zoomIn': 'Acercar',
+  'lightbox.zoomOut': 'Alejar',
+  'lightbox.thumbnails': 'Miniaturas',
+};
+
+export const messages: Record<Language, Messages> = { catala, english, castellano };
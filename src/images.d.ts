@@ -0,0 +1,9 @@
+declare module '*?responsive' {
+  const picture: import('./content/images').PictureModule;
+  export default picture;
+}
+
+declare module '*?placeholder' {
+  const dataUri: string;
+  export default dataUri;
+}
@@ -2,13 +2,20 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import { BrowserRouter } from 'react-router-dom';
 import App from './App';
+import { ThemeProvider } from './theme';
 import './styles.css';
 
-ReactDOM.createRoot(document.getElementById('root')!).render(
+const root = document.getElementById('root')!;
+const app = (
   <React.StrictMode>
     <BrowserRouter>
-      <App />
+      <ThemeProvider>
+        <App />
+      </ThemeProvider>
     </BrowserRouter>
   </React.StrictMode>
 );
 
+// Prerendered pages (see plugins/prerender.ts) are hydrated; the SPA fallback page starts empty
+if (root.firstElementChild) ReactDOM.hydrateRoot(root, app);
+else ReactDOM.createRoot(root).render(app);
@@ -0,0 +1,108 @@
+import React, { useEffect, useMemo } from 'react';
+import { Link, useLocation } from 'react-router-dom';
+import AddToCalendar from '../components/AddToCalendar';
+import {
+  eventTitle,
+  formatEventDates,
+  getEvents,
+  pastEvents,
+  upcomingEvents,
+  useAgendaToday,
+  type AgendaEvent,
+} from '../content/agenda';
+import { calendarFeedPath } from '../content/ics';
+import { getWorks } from '../content/works';
+import { useTranslation } from '../i18n';
+
+function EventItem({ event, past }: { event: AgendaEvent; past?: boolean }) {
+  const { language, t, localePath } = useTranslation();
+  const works = getWorks();
+  const figures = event.works
+    .map((slug) => works.find((w) => w.slug === slug))
+    .filter((w): w is NonNullable<typeof w> => !!w);
+
+  return (
+    <li id={event.id} className={`agenda-event ${past ? 'past' : ''}`}>
+      <time className="agenda-event-date" dateTime={event.start}>
+        {formatEventDates(event, language)}
+      </time>
+      <h3 className="agenda-event-title">{eventTitle(event, language)}</h3>
+      <p className="agenda-event-place">{[event.place, event.city].filter(Boolean).join(', ')}</p>
+      {figures.length > 0 && (
+        <ul className="agenda-event-works" aria-label={t('agenda.figures')}>
+          {figures.map((work) => (
+            <li key={work.slug}>
+              <Link className="chip" to={localePath(`/obra/${work.slug}`)}>
+                {work.meta.nom}
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+      {(!past || event.url) && (
+        <div className="agenda-event-actions">
+          {!past && <AddToCalendar event={event} />}
+          {event.url && (
+            <a className="agenda-event-link" href={event.url} target="_blank" rel="noopener noreferrer">
+              {t('agenda.programme')}
+            </a>
+          )}
+        </div>
+      )}
+    </li>
+  );
+}
+
+export default function Agenda() {
+  const { language, t } = useTranslation();
+  const location = useLocation();
+  const events = getEvents();
+  const today = useAgendaToday();
+  const upcoming = useMemo(() => upcomingEvents(events, today), [events, today]);
+  const past = useMemo(() => pastEvents(events, today), [events, today]);
+
+  // Links from a work's drawer point at one event (/agenda#carnaval-solsona-2027)
+  useEffect(() => {
+    const id = decodeURIComponent(location.hash.slice(1));
+    if (id) document.getElementById(id)?.scrollIntoView({ block: 'center' });
+  }, [location.hash]);
+
+  return (
+    <div className="container section agenda">
+      <h1>{t('agenda.title')}</h1>
+      <p className="lead">{t('agenda.lead')}</p>
+
+      <section aria-labelledby="agenda-upcoming">
+        <h2 id="agenda-upcoming">{t('agenda.upcoming')}</h2>
+        {upcoming.length > 0 ? (
+          <ol className="agenda-list">
+            {upcoming.map((event) => (
+              <EventItem key={event.id} event={event} />
+            ))}
+          </ol>
+        ) : (
+          <p className="agenda-empty">{t('agenda.noUpcoming')}</p>
+        )}
+      </section>
+
+      <aside className="agenda-subscribe" aria-labelledby="agenda-subscribe-title">
+        <h2 id="agenda-subscribe-title">{t('agenda.subscribe.title')}</h2>
+        <p>{t('agenda.subscribe.text')}</p>
+        <a className="agenda-subscribe-link" href={calendarFeedPath(language)}>
+          {t('agenda.subscribe.link')}
+        </a>
+      </aside>
+
+      {past.length > 0 && (
+        <section aria-labelledby="agenda-past">
+          <h2 id="agenda-past">{t('agenda.past')}</h2>
+          <ol className="agenda-list">
+            {past.map((event) => (
+              <EventItem key={event.id} event={event} past />
+            ))}
+          </ol>
+        </section>
+      )}
+    </div>
+  );
+}
@@ -1,22 +1,44 @@
-import React, { useContext, useMemo } from 'react';
-import { LanguageContext } from '../App';
+import React, { useMemo, useState } from 'react';
+import { localized, useTranslation, type Language } from '../i18n';
 import taller from '../../taller.json';
-import destacatUrl from '../../fotos_generals/photo5.jpg';
+import destacatPicture from '../../fotos_generals/photo5.jpg?responsive';
+import destacatPlaceholder from '../../fotos_generals/photo5.jpg?placeholder';
+import ResponsiveImg from '../components/ResponsiveImg';
+import Lightbox from '../components/Lightbox';
+import { toResponsiveImage, toResponsiveImages, type PictureModule } from '../content/images';
+
+const destacat = toResponsiveImage(destacatPicture, destacatPlaceholder);
 
 export default function ElTaller() {
-  const { language } = useContext(LanguageContext);
-  const paragraphs = useMemo(() => taller[language] as string[], [language]);
+  const { language, t } = useTranslation();
+  const paragraphs = useMemo(
+    () => localized(language, taller as Partial<Record<Language, string[]>>) ?? [],
+    [language]
+  );
   const albumImages = useMemo(() => {
-    const modules = import.meta.glob('../../fotos_generals/eltaller/*.{png,jpg,jpeg,webp}', { eager: true, as: 'url' }) as Record<string, string>;
+    const modules = toResponsiveImages(
+      import.meta.glob<PictureModule>('../../fotos_generals/eltaller/*.{png,jpg,jpeg,webp}', {
+        eager: true,
+        query: '?responsive',
+        import: 'default',
+      }),
+      import.meta.glob<string>('../../fotos_generals/eltaller/*.{png,jpg,jpeg,webp}', {
+        eager: true,
+        query: '?placeholder',
+        import: 'default',
+      })
+    );
     return Object.entries(modules)
       .sort(([a], [b]) => a.localeCompare(b))
-      .map(([, url]) => url);
+      .map(([, image]) => image);
   }, []);
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+  const photoAlt = (idx: number) => t('workshop.photoAlt', { index: idx + 1 });
 
   return (
     <div className="container section">
-      <h1>{language === 'catala' ? 'El Taller' : 'The Workshop'}</h1>
-      <p className="lead">{language === 'catala' ? 'Espai de creació' : 'Creation space'}</p>
+      <h1>{t('workshop.title')}</h1>
+      <p className="lead">{t('workshop.lead')}</p>
       <div className="two-col">
         <div className="text-justify text-lg">
           {paragraphs.map((p, idx) => (
@@ -24,15 +46,36 @@ export default function ElTaller() {
           ))}
         </div>
         <div className="artist-photos">
-          <img src={destacatUrl} alt="Taller destacat" />
+          <ResponsiveImg image={destacat} alt={t('workshop.featuredAlt')} sizes="(min-width: 900px) 40vw, 100vw" />
         </div>
       </div>
 
-      <div className="album-grid" aria-label={language === 'catala' ? 'Àlbum del taller' : 'Workshop album'}>
-        {albumImages.map((src, idx) => (
-          <img key={idx} src={src} alt={(language === 'catala' ? 'Foto del taller ' : 'Workshop photo ') + (idx + 1)} />
+      <div className="album-grid" aria-label={t('workshop.album')}>
+        {albumImages.map((image, idx) => (
+          <button
+            key={idx}
+            type="button"
+            className="zoomable"
+            title={t('lightbox.open')}
+            onClick={() => setLightboxIndex(idx)}
+          >
+            <ResponsiveImg
+              image={image}
+              alt={photoAlt(idx)}
+              sizes="(max-width: 480px) 50vw, (max-width: 768px) 33vw, 360px"
+            />
+          </button>
         ))}
       </div>
+      {lightboxIndex !== null ? (
+        <Lightbox
+          images={albumImages}
+          index={lightboxIndex}
+          onIndexChange={setLightboxIndex}
+          onClose={() => setLightboxIndex(null)}
+          altFor={photoAlt}
+        />
+      ) : null}
     </div>
   );
 }
@@ -0,0 +1,641 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import ResponsiveImg from '../components/ResponsiveImg';
+import { CONTACT } from '../content/contact';
+import {
+  BUDGET_RANGES,
+  CARRYING_METHODS,
+  COMMISSION_STEPS,
+  COMMISSION_TEXT_LIMITS,
+  EMPTY_COMMISSION,
+  HEIGHT_RANGE,
+  LEAD_TIME_WEEKS,
+  MAX_REFERENCES,
+  WEIGHT_RANGE,
+  commissionSummary,
+  earliestDeadline,
+  normalizeCommissionRequest,
+  validateCommissionRequest,
+  type CommissionErrors,
+  type CommissionField,
+  type CommissionRequest,
+  type CommissionResponse,
+} from '../content/commission';
+import { WORK_TYPOLOGIES, type WorkTypology } from '../content/workMeta';
+import { getWorks } from '../content/works';
+import { LANGUAGE_INFO, useTranslation, type MessageKey } from '../i18n';
+
+const DRAFT_KEY = 'pau-reig-commission-draft';
+
+type Draft = { request: CommissionRequest; step: number };
+type Status = 'idle' | 'sending' | 'sent' | 'failed' | 'rateLimited';
+type Update = <K extends keyof CommissionRequest>(field: K, value: CommissionRequest[K]) => void;
+type ErrorText = (field: CommissionField) => string | undefined;
+
+function loadDraft(): Draft | null {
+  try {
+    const raw = JSON.parse(localStorage.getItem(DRAFT_KEY) ?? 'null');
+    if (!raw || typeof raw !== 'object') return null;
+    const step = Number(raw.step);
+    return {
+      request: normalizeCommissionRequest(raw.request),
+      step: Number.isInteger(step) && step >= 0 && step < COMMISSION_STEPS.length ? step : 0,
+    };
+  } catch {
+    return null;
+  }
+}
+
+function storeDraft(draft: Draft | null) {
+  try {
+    if (draft) localStorage.setItem(DRAFT_KEY, JSON.stringify(draft));
+    else localStorage.removeItem(DRAFT_KEY);
+  } catch {}
+}
+
+// Label, control and error message wired together for assistive technology
+function Field({
+  id,
+  label,
+  optional,
+  error,
+  help,
+  children,
+}: {
+  id: string;
+  label: string;
+  optional?: boolean;
+  error?: string;
+  help?: string;
+  children: (aria: { id: string; 'aria-invalid'?: boolean; 'aria-describedby'?: string }) => React.ReactNode;
+}) {
+  const { t } = useTranslation();
+  const describedBy = [help && `${id}-help`, error && `${id}-error`].filter(Boolean).join(' ') || undefined;
+  return (
+    <div className={`commission-field ${error ? 'invalid' : ''}`}>
+      <label htmlFor={id}>
+        {label}
+        {optional && <span className="commission-optional"> ({t('commission.optional')})</span>}
+      </label>
+      {children({ id, 'aria-invalid': error ? true : undefined, 'aria-describedby': describedBy })}
+      {help && (
+        <span id={`${id}-help`} className="commission-help">
+          {help}
+        </span>
+      )}
+      {error && (
+        <span id={`${id}-error`} className="commission-error">
+          {error}
+        </span>
+      )}
+    </div>
+  );
+}
+
+// A set of radio buttons rendered as selectable cards
+function Choice<T extends string>({
+  name,
+  legend,
+  options,
+  value,
+  label,
+  error,
+  onChange,
+}: {
+  name: CommissionField;
+  legend: string;
+  options: readonly T[];
+  value: T | '';
+  label: (option: T) => string;
+  error?: string;
+  onChange: (value: T) => void;
+}) {
+  return (
+    <fieldset
+      className={`commission-choice ${error ? 'invalid' : ''}`}
+      aria-describedby={error ? `commission-${name}-error` : undefined}
+    >
+      <legend>{legend}</legend>
+      <div className="commission-choice-options">
+        {options.map((option) => (
+          <label key={option} className={value === option ? 'selected' : ''}>
+            <input
+              type="radio"
+              name={name}
+              value={option}
+              checked={value === option}
+              onChange={() => onChange(option)}
+            />
+            {label(option)}
+          </label>
+        ))}
+      </div>
+      {error && (
+        <span id={`commission-${name}-error`} className="commission-error">
+          {error}
+        </span>
+      )}
+    </fieldset>
+  );
+}
+
+function FigureStep({ request, update, errorText }: { request: CommissionRequest; update: Update; errorText: ErrorText }) {
+  const { t } = useTranslation();
+  return (
+    <>
+      <Choice
+        name="figure"
+        legend={t('commission.field.figure')}
+        options={WORK_TYPOLOGIES}
+        value={request.figure}
+        label={(typology) => t(`work.typology.${typology}`)}
+        error={errorText('figure')}
+        onChange={(figure) => update('figure', figure)}
+      />
+      <div className="commission-row">
+        <Field id="commission-height" label={t('commission.field.height')} error={errorText('height')}>
+          {(aria) => (
+            <span className="commission-measure">
+              <input
+                {...aria}
+                name="height"
+                inputMode="decimal"
+                value={request.height}
+                onChange={(e) => update('height', e.target.value)}
+              />
+              <select
+                aria-label={t('commission.field.heightUnit')}
+                value={request.heightUnit}
+                onChange={(e) => update('heightUnit', e.target.value as CommissionRequest['heightUnit'])}
+              >
+                <option value="m">m</option>
+                <option value="cm">cm</option>
+              </select>
+            </span>
+          )}
+        </Field>
+        <Field id="commission-weight" label={t('commission.field.weight')} optional error={errorText('weight')}>
+          {(aria) => (
+            <input
+              {...aria}
+              name="weight"
+              inputMode="decimal"
+              value={request.weight}
+              onChange={(e) => update('weight', e.target.value)}
+            />
+          )}
+        </Field>
+      </div>
+      <Choice
+        name="carrying"
+        legend={t('commission.field.carrying')}
+        options={CARRYING_METHODS}
+        value={request.carrying}
+        label={(method) => t(`commission.carrying.${method}`)}
+        error={errorText('carrying')}
+        onChange={(carrying) => update('carrying', carrying)}
+      />
+    </>
+  );
+}
+
+function ReferencesStep({ request, update, errorText }: { request: CommissionRequest; update: Update; errorText: ErrorText }) {
+  const { t } = useTranslation();
+  const works = getWorks();
+  // Starts on the figure type asked for, when the workshop has made any
+  const [typology, setTypology] = useState<WorkTypology | ''>(() =>
+    works.some((w) => w.meta.typology === request.figure) ? request.figure : ''
+  );
+  const typologies = WORK_TYPOLOGIES.filter((ty) => works.some((w) => w.meta.typology === ty));
+  const shown = typology ? works.filter((w) => w.meta.typology === typology) : works;
+  const selected = new Set(request.references);
+  const full = selected.size >= MAX_REFERENCES;
+
+  const toggle = (slug: string) =>
+    update(
+      'references',
+      selected.has(slug) ? request.references.filter((s) => s !== slug) : [...request.references, slug]
+    );
+
+  return (
+    <>
+      <p className="commission-help">{t('commission.references.help', { max: MAX_REFERENCES })}</p>
+      {typologies.length > 0 && (
+        <div className="commission-reference-filters" role="group" aria-label={t('work.filter.typology')}>
+          <button
+            type="button"
+            className={`filter-chip ${typology === '' ? 'active' : ''}`}
+            aria-pressed={typology === ''}
+            onClick={() => setTypology('')}
+          >
+            {t('commission.references.all')}
+          </button>
+          {typologies.map((ty) => (
+            <button
+              key={ty}
+              type="button"
+              className={`filter-chip ${typology === ty ? 'active' : ''}`}
+              aria-pressed={typology === ty}
+              onClick={() => setTypology(ty)}
+            >
+              {t(`work.typology.${ty}`)}
+            </button>
+          ))}
+        </div>
+      )}
+      <p className="commission-reference-count" role="status">
+        {t('commission.references.count', { count: selected.size })}
+      </p>
+      <ul className="commission-references">
+        {shown.map((work) => {
+          const image = work.main2Image ?? work.mainImage;
+          const isSelected = selected.has(work.slug);
+          return (
+            <li key={work.slug}>
+              <button
+                type="button"
+                className={isSelected ? 'selected' : ''}
+                aria-pressed={isSelected}
+                disabled={!isSelected && full}
+                onClick={() => toggle(work.slug)}
+              >
+                {image && <ResponsiveImg image={image} alt="" sizes="160px" />}
+                <span>{work.meta.nom}</span>
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+      {errorText('references') && <p className="commission-error">{errorText('references')}</p>}
+    </>
+  );
+}
+
+function ScheduleStep({ request, update, errorText }: { request: CommissionRequest; update: Update; errorText: ErrorText }) {
+  const { language, t } = useTranslation();
+  const earliest = request.figure ? earliestDeadline(request.figure) : undefined;
+  const help =
+    request.figure && earliest
+      ? t('commission.deadline.help', {
+          weeks: LEAD_TIME_WEEKS[request.figure],
+          date: new Intl.DateTimeFormat(LANGUAGE_INFO[language].locale, { dateStyle: 'long' }).format(
+            new Date(`${earliest}T12:00:00`)
+          ),
+        })
+      : undefined;
+  return (
+    <>
+      <Field id="commission-festival" label={t('commission.field.festival')} optional error={errorText('festival')}>
+        {(aria) => (
+          <input {...aria} name="festival" value={request.festival} onChange={(e) => update('festival', e.target.value)} />
+        )}
+      </Field>
+      <Field id="commission-deadline" label={t('commission.field.deadline')} error={errorText('deadline')} help={help}>
+        {(aria) => (
+          <input
+            {...aria}
+            name="deadline"
+            type="date"
+            min={earliest}
+            value={request.deadline}
+            onChange={(e) => update('deadline', e.target.value)}
+          />
+        )}
+      </Field>
+      <Choice
+        name="budget"
+        legend={t('commission.field.budget')}
+        options={BUDGET_RANGES}
+        value={request.budget}
+        label={(range) => t(`commission.budget.${range}`)}
+        error={errorText('budget')}
+        onChange={(budget) => update('budget', budget)}
+      />
+    </>
+  );
+}
+
+const ENTITY_FIELDS: {
+  field: 'entity' | 'contactName' | 'email' | 'phone' | 'town';
+  autoComplete: string;
+  type?: string;
+  optional?: boolean;
+}[] = [
+  { field: 'entity', autoComplete: 'organization' },
+  { field: 'contactName', autoComplete: 'name' },
+  { field: 'email', autoComplete: 'email', type: 'email' },
+  { field: 'phone', autoComplete: 'tel', type: 'tel', optional: true },
+  { field: 'town', autoComplete: 'address-level2' },
+];
+
+function EntityStep({ request, update, errorText }: { request: CommissionRequest; update: Update; errorText: ErrorText }) {
+  const { t } = useTranslation();
+  return (
+    <>
+      <div className="commission-row">
+        {ENTITY_FIELDS.map(({ field, autoComplete, type, optional }) => (
+          <Field
+            key={field}
+            id={`commission-${field}`}
+            label={t(`commission.field.${field}`)}
+            optional={optional}
+            error={errorText(field)}
+          >
+            {(aria) => (
+              <input
+                {...aria}
+                name={field}
+                type={type ?? 'text'}
+                autoComplete={autoComplete}
+                value={request[field]}
+                onChange={(e) => update(field, e.target.value)}
+              />
+            )}
+          </Field>
+        ))}
+      </div>
+      <Field id="commission-notes" label={t('commission.field.notes')} optional error={errorText('notes')}>
+        {(aria) => (
+          <textarea {...aria} name="notes" rows={5} value={request.notes} onChange={(e) => update('notes', e.target.value)} />
+        )}
+      </Field>
+      {/* Honeypot: off-screen and out of the tab order, so only bots fill it in */}
+      <div className="contact-form-hp" aria-hidden="true">
+        <label htmlFor="commission-website">{t('contact.form.website')}</label>
+        <input
+          id="commission-website"
+          name="website"
+          tabIndex={-1}
+          autoComplete="off"
+          value={request.website}
+          onChange={(e) => update('website', e.target.value)}
+        />
+      </div>
+    </>
+  );
+}
+
+function Summary({ request, reference }: { request: CommissionRequest; reference: string | null }) {
+  const { language, t } = useTranslation();
+  const rows = useMemo(() => {
+    const names = new Map(getWorks().map((w) => [w.slug, w.meta.nom]));
+    return commissionSummary(request, language, (slug) => names.get(slug) ?? slug);
+  }, [request, language]);
+  return (
+    <div className="commission-summary">
+      <p className="commission-summary-meta">
+        {reference && (
+          <span>
+            {t('commission.summary.reference')}: <strong>{reference}</strong>
+          </span>
+        )}
+        <span>
+          {t('commission.summary.date')}:{' '}
+          {new Intl.DateTimeFormat(LANGUAGE_INFO[language].locale, { dateStyle: 'long' }).format(new Date())}
+        </span>
+      </p>
+      <dl>
+        {rows.map((row) => (
+          <div key={row.label} className="commission-summary-row">
+            <dt>{row.label}</dt>
+            <dd>{row.value}</dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+}
+
+/** Encàrrecs: a step-by-step commission request for colles and councils, sent to `/api/commission`. */
+export default function Encarrec() {
+  const { t } = useTranslation();
+  const [request, setRequest] = useState<CommissionRequest>(EMPTY_COMMISSION);
+  const [stepIndex, setStepIndex] = useState(0);
+  const [errors, setErrors] = useState<CommissionErrors>({});
+  const [status, setStatus] = useState<Status>('idle');
+  const [reference, setReference] = useState<string | null>(null);
+  const [draftRestored, setDraftRestored] = useState(false);
+  const [loaded, setLoaded] = useState(false);
+  const headingRef = useRef<HTMLHeadingElement>(null);
+  const statusRef = useRef<HTMLParagraphElement>(null);
+  const moved = useRef(false);
+  const step = COMMISSION_STEPS[stepIndex];
+
+  // The draft is read after hydration, so the prerendered markup (an empty form) matches the first render
+  useEffect(() => {
+    const draft = loadDraft();
+    if (draft && JSON.stringify(draft.request) !== JSON.stringify(EMPTY_COMMISSION)) {
+      setRequest(draft.request);
+      setStepIndex(draft.step);
+      setDraftRestored(true);
+    }
+    setLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (loaded && status !== 'sent') storeDraft({ request, step: stepIndex });
+  }, [loaded, request, stepIndex, status]);
+
+  // Focus follows the step so keyboard and screen reader users land on the new content
+  useEffect(() => {
+    if (moved.current) headingRef.current?.focus();
+  }, [stepIndex]);
+
+  useEffect(() => {
+    if (status === 'sent' || status === 'failed' || status === 'rateLimited') statusRef.current?.focus();
+  }, [status]);
+
+  const update: Update = (field, value) => {
+    const next = { ...request, [field]: value };
+    setRequest(next);
+    if (Object.keys(errors).length > 0) setErrors(validateCommissionRequest(next, step.id));
+  };
+
+  const goTo = (index: number) => {
+    moved.current = true;
+    setErrors({});
+    setStepIndex(index);
+  };
+
+  const focusFirstError = (fieldErrors: CommissionErrors) => {
+    const first = Object.keys(fieldErrors)[0];
+    if (first) document.querySelector<HTMLElement>(`.commission [name="${first}"]`)?.focus();
+  };
+
+  const next = () => {
+    const stepErrors = validateCommissionRequest(request, step.id);
+    setErrors(stepErrors);
+    if (Object.keys(stepErrors).length > 0) focusFirstError(stepErrors);
+    else goTo(stepIndex + 1);
+  };
+
+  const restart = () => {
+    storeDraft(null);
+    setRequest(EMPTY_COMMISSION);
+    setReference(null);
+    setStatus('idle');
+    setDraftRestored(false);
+    goTo(0);
+  };
+
+  const submit = async () => {
+    // Any step may have been left invalid by a restored draft; go back to the first one with errors
+    const invalidStep = COMMISSION_STEPS.findIndex((s) => Object.keys(validateCommissionRequest(request, s.id)).length);
+    if (invalidStep !== -1) {
+      goTo(invalidStep);
+      setErrors(validateCommissionRequest(request, COMMISSION_STEPS[invalidStep].id));
+      return;
+    }
+
+    setStatus('sending');
+    let result: CommissionResponse;
+    try {
+      const res = await fetch('/api/commission', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+      });
+      result = await res.json();
+    } catch {
+      result = { ok: false, error: 'failed' };
+    }
+
+    if (result.ok) {
+      storeDraft(null);
+      setReference(result.reference);
+      setStatus('sent');
+    } else if (result.error === 'invalid') {
+      const { fields } = result;
+      const fieldStep = COMMISSION_STEPS.findIndex((s) =>
+        (s.fields as readonly CommissionField[]).some((field) => field in fields)
+      );
+      setStatus('idle');
+      goTo(fieldStep === -1 ? 0 : fieldStep);
+      setErrors(fields);
+    } else {
+      setStatus(result.error);
+    }
+  };
+
+  const errorText: ErrorText = (field) => {
+    const error = errors[field];
+    switch (error) {
+      case undefined:
+        return undefined;
+      case 'invalidEmail':
+        return t('contact.error.invalid');
+      case 'tooLong':
+        return t('contact.error.tooLong', { max: COMMISSION_TEXT_LIMITS[field] ?? 0 });
+      case 'tooSoon':
+        return t('commission.error.tooSoon');
+      case 'outOfRange': {
+        const range = field === 'weight' ? WEIGHT_RANGE : HEIGHT_RANGE[request.heightUnit];
+        return t('commission.error.outOfRange', range);
+      }
+      case 'tooMany':
+        return t('commission.error.tooMany', { max: MAX_REFERENCES });
+      default:
+        return t(`commission.error.${error}`);
+    }
+  };
+
+  const stepProps = { request, update, errorText };
+  const invalidCount = Object.keys(errors).length;
+  const stepLabel = (id: (typeof COMMISSION_STEPS)[number]['id']): MessageKey => `commission.step.${id}`;
+
+  return (
+    <div className="container section commission">
+      <div className="commission-intro">
+        <h1>{t('commission.title')}</h1>
+        <p className="lead">{t('commission.lead')}</p>
+      </div>
+
+      {draftRestored && status !== 'sent' && (
+        <p className="commission-draft">
+          {t('commission.draftRestored')}{' '}
+          <button type="button" className="obra-filters-clear" onClick={restart}>
+            {t('commission.discardDraft')}
+          </button>
+        </p>
+      )}
+
+      <nav aria-label={t('commission.steps')}>
+        <ol className="commission-steps">
+          {COMMISSION_STEPS.map((s, idx) => (
+            <li key={s.id} className={idx === stepIndex ? 'current' : idx < stepIndex ? 'done' : ''}>
+              <button
+                type="button"
+                aria-current={idx === stepIndex ? 'step' : undefined}
+                disabled={idx >= stepIndex || status === 'sent'}
+                onClick={() => goTo(idx)}
+              >
+                <span className="commission-step-number">{idx + 1}</span>
+                {t(stepLabel(s.id))}
+              </button>
+            </li>
+          ))}
+        </ol>
+      </nav>
+
+      <form
+        className="commission-form"
+        noValidate
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (step.id === 'summary') submit();
+          else next();
+        }}
+      >
+        <h2 ref={headingRef} tabIndex={-1} className="commission-step-title">
+          <span className="sr-only">{t('commission.stepOf', { index: stepIndex + 1, count: COMMISSION_STEPS.length })}: </span>
+          {t(stepLabel(step.id))}
+        </h2>
+
+        {step.id === 'figure' && <FigureStep {...stepProps} />}
+        {step.id === 'references' && <ReferencesStep {...stepProps} />}
+        {step.id === 'schedule' && <ScheduleStep {...stepProps} />}
+        {step.id === 'entity' && <EntityStep {...stepProps} />}
+        {step.id === 'summary' && <Summary request={request} reference={reference} />}
+
+        <p ref={statusRef} tabIndex={-1} role="status" className="commission-status">
+          {invalidCount > 0 && t('contact.form.invalid', { count: invalidCount })}
+          {status === 'sent' && reference && t('commission.sent', { reference })}
+          {status === 'failed' && t('commission.failed', { email: CONTACT.email })}
+          {status === 'rateLimited' && t('contact.form.rateLimited')}
+        </p>
+
+        <div className="commission-actions">
+          {status === 'sent' ? (
+            <>
+              <button type="button" className="commission-secondary" onClick={() => window.print()}>
+                {t('commission.print')}
+              </button>
+              <button type="button" className="commission-primary" onClick={restart}>
+                {t('commission.newRequest')}
+              </button>
+            </>
+          ) : (
+            <>
+              {stepIndex > 0 && (
+                <button type="button" className="commission-secondary" onClick={() => goTo(stepIndex - 1)}>
+                  {t('commission.back')}
+                </button>
+              )}
+              {step.id === 'summary' && (
+                <button type="button" className="commission-secondary" onClick={() => window.print()}>
+                  {t('commission.print')}
+                </button>
+              )}
+              <button type="submit" className="commission-primary" disabled={status === 'sending'}>
+                {step.id !== 'summary'
+                  ? t('commission.next')
+                  : status === 'sending'
+                    ? t('contact.form.sending')
+                    : t('commission.submit')}
+              </button>
+            </>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -1,16 +1,153 @@
-import React, { useContext, useMemo } from 'react';
-import { LanguageContext } from '../App';
+import React, { useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { localized, useTranslation, type Language } from '../i18n';
 import artist from '../../artist.json';
-import contactImgUrl from '../../fotos_generals/photo2.jpg';
+import artistPicture from '../../fotos_generals/photo2.jpg?responsive';
+import artistPlaceholder from '../../fotos_generals/photo2.jpg?placeholder';
+import ResponsiveImg from '../components/ResponsiveImg';
+import {
+  CV_SECTIONS,
+  clippingUrl,
+  cvTitle,
+  formatCvPeriod,
+  formatPressDate,
+  getCvEntries,
+  getPressItems,
+  parseCvSections,
+  writeCvSections,
+  type CvEntry,
+  type CvSection,
+  type PressItem,
+} from '../content/cv';
+import { toResponsiveImage } from '../content/images';
+
+const artistImage = toResponsiveImage(artistPicture, artistPlaceholder);
+
+function CvList({ entries }: { entries: CvEntry[] }) {
+  const { language, t } = useTranslation();
+  return (
+    <ol className="artist-cv-list">
+      {entries.map((entry) => {
+        const period = formatCvPeriod(entry, language);
+        const meta = [entry.institution, entry.place].filter(Boolean).join(', ');
+        return (
+          <li key={entry.id} className="artist-cv-item">
+            {period && <span className="artist-cv-date">{period}</span>}
+            <span className="artist-cv-title">{cvTitle(entry, language)}</span>
+            {meta && <span className="artist-cv-meta">{meta}</span>}
+            {entry.url && (
+              <a className="artist-cv-link" href={entry.url} target="_blank" rel="noopener noreferrer">
+                {t('artist.cv.more')}
+              </a>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
+
+function PressList({ items }: { items: PressItem[] }) {
+  const { language, t } = useTranslation();
+  return (
+    <ol className="artist-cv-list">
+      {items.map((item) => {
+        const pdf = clippingUrl(item);
+        return (
+          <li key={item.id} className="artist-cv-item">
+            <span className="artist-cv-date">
+              <time dateTime={item.date}>{formatPressDate(item, language)}</time> · {item.outlet}
+            </span>
+            <span className="artist-cv-title" lang={item.language}>{item.title}</span>
+            {(item.url || pdf) && (
+              <span className="artist-cv-links">
+                {item.url && (
+                  <a className="artist-cv-link" href={item.url} target="_blank" rel="noopener noreferrer">
+                    {t('artist.press.read')}
+                  </a>
+                )}
+                {pdf && (
+                  <a className="artist-cv-link" href={pdf} target="_blank" rel="noopener noreferrer">
+                    {t('artist.press.clipping')}
+                  </a>
+                )}
+              </span>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
+
+// CV and press coverage, one group per section; the chips pick sections and are kept in `?show=`
+function CvPanel() {
+  const { t } = useTranslation();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const picked = useMemo(() => parseCvSections(searchParams), [searchParams]);
+  const entries = getCvEntries();
+  const press = getPressItems();
+  // Sections with nothing in cv.json yet get neither a chip nor a heading
+  const available = CV_SECTIONS.filter((s) => (s === 'press' ? press.length > 0 : entries.some((e) => e.kind === s)));
+  const shown = available.filter((s) => picked.length === 0 || picked.includes(s));
+
+  if (available.length === 0) return null;
+
+  const pick = (sections: CvSection[]) => setSearchParams(writeCvSections(searchParams, sections), { replace: true });
+  const toggle = (section: CvSection) =>
+    pick(picked.includes(section) ? picked.filter((s) => s !== section) : [...picked, section]);
+
+  return (
+    <section className="artist-cv" aria-labelledby="artist-cv-title">
+      <h2 id="artist-cv-title">{t('artist.cv.title')}</h2>
+      {available.length > 1 && (
+        <div className="artist-cv-filters" role="group" aria-label={t('artist.cv.filter')}>
+          <button
+            type="button"
+            className={`filter-chip ${picked.length === 0 ? 'active' : ''}`}
+            aria-pressed={picked.length === 0}
+            onClick={() => pick([])}
+          >
+            {t('artist.cv.all')}
+          </button>
+          {available.map((section) => (
+            <button
+              key={section}
+              type="button"
+              className={`filter-chip ${picked.includes(section) ? 'active' : ''}`}
+              aria-pressed={picked.includes(section)}
+              onClick={() => toggle(section)}
+            >
+              {t(`artist.cv.section.${section}`)}
+            </button>
+          ))}
+        </div>
+      )}
+      {shown.map((section) => (
+        <div key={section} className="artist-cv-group">
+          <h3>{t(`artist.cv.section.${section}`)}</h3>
+          {section === 'press' ? (
+            <PressList items={press} />
+          ) : (
+            <CvList entries={entries.filter((e) => e.kind === section)} />
+          )}
+        </div>
+      ))}
+    </section>
+  );
+}
 
 export default function LArtista() {
-  const { language } = useContext(LanguageContext);
-  const paragraphs = useMemo(() => artist[language] as string[], [language]);
+  const { language, t } = useTranslation();
+  const paragraphs = useMemo(
+    () => localized(language, artist as Partial<Record<Language, string[]>>) ?? [],
+    [language]
+  );
 
   return (
     <div className="container section container-wide">
-      <h1>{language === 'catala' ? "L'Artista" : 'The Artist'}</h1>
-      <p className="lead">{language === 'catala' ? 'Biografia i trajectòria' : 'Biography and background'}</p>
+      <h1>{t('artist.title')}</h1>
+      <p className="lead">{t('artist.lead')}</p>
       <div className="two-col">
         <div className="text-justify text-lg">
           {paragraphs.map((p, idx) => (
@@ -18,10 +155,10 @@ export default function LArtista() {
           ))}
         </div>
         <div className="artist-photos">
-          <img src={contactImgUrl} alt="Artist" />
+          <ResponsiveImg image={artistImage} alt={t('artist.photoAlt')} sizes="(min-width: 900px) 40vw, 100vw" />
+          <CvPanel />
         </div>
       </div>
     </div>
   );
 }
-
@@ -1,258 +1,228 @@
-import React, { useContext, useEffect, useMemo, useRef, useState } from 'react';
-import { LanguageContext, ModalContext } from '../App';
-import L from 'leaflet';
-import 'leaflet/dist/leaflet.css';
-
-type Language = 'catala' | 'english';
-
-type WorkMeta = {
-  nom: string;
-  city?: string;
-  address?: string;
-  text_catala?: string;
-  text_angles?: string;
-  year?: number | string;
-  month?: string | number;
-};
-
-type WorkItem = {
-  slug: string;
-  folderPath: string;
-  meta: WorkMeta;
-  mainImageUrl?: string;
-  main2ImageUrl?: string;
-  albumImageUrls: string[];
-};
+import React, { useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { Link, useLocation, useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { ModalContext } from '../App';
+import { LANGUAGE_INFO, useTranslation, type MessageKey } from '../i18n';
+import {
+  formatMeasurement,
+  parseYear,
+  workText,
+  type WorkMeta,
+  type WorkTypology,
+} from '../content/workMeta';
+import ResponsiveImg from '../components/ResponsiveImg';
+import AddToCalendar from '../components/AddToCalendar';
+import WorkMap from '../components/WorkMap';
+import WorkProcess from '../components/WorkProcess';
+import Lightbox from '../components/Lightbox';
+import { useModalDialog } from '../components/useModalDialog';
+import {
+  WORK_SORTS,
+  applyWorkFilters,
+  hasActiveFilters,
+  clearWorkFilters,
+  listCities,
+  listMaterials,
+  listTypologies,
+  normalizeText,
+  parseWorkFilters,
+  writeWorkFilters,
+  type WorkFilters,
+  type WorkSort,
+} from '../content/search';
+import {
+  eventTitle,
+  eventsInNextMonth,
+  formatEventDates,
+  getEvents,
+  upcomingEventsForWork,
+  useAgendaToday,
+} from '../content/agenda';
+import { collectionTitle, listCollections } from '../content/collections';
+import { relatedWorks } from '../content/related';
+import { buildTimeline, type TimelineZoom } from '../content/timeline';
+import { getWorkQueries, getWorks, type WorkItem } from '../content/works';
 
 type ViewMode = 'grid' | 'list' | 'map' | 'timeline';
 
-function buildWorks(): WorkItem[] {
-  // Load JSON metadata from each folder under /pages/*/*.json
-  const jsonModules = import.meta.glob('/pages/*/*.json', { eager: true }) as Record<string, unknown>;
-  // Load main image per folder (jpg/png/jpeg)
-  const mainImageModules = import.meta.glob('/pages/*/main.{jpg,jpeg,png}', {
-    eager: true,
-    as: 'url',
-  }) as Record<string, string>;
-  // Load optional secondary main image for list view
-  const main2ImageModules = import.meta.glob('/pages/*/main2.{jpg,jpeg,png}', {
-    eager: true,
-    as: 'url',
-  }) as Record<string, string>;
-  // Load all images per folder for the album
-  const albumImageModules = import.meta.glob('/pages/*/*.{jpg,jpeg,png}', {
-    eager: true,
-    as: 'url',
-  }) as Record<string, string>;
-
-  const worksByFolder: Record<string, WorkItem> = {};
-
-  // Build base items from JSON files
-  Object.entries(jsonModules).forEach(([path, mod]) => {
-    const folderMatch = path.match(/^\/pages\/([^\/]+)\//);
-    if (!folderMatch) return;
-    const folder = folderMatch[1];
-    const slug = folder;
-    const metaModule = mod as any;
-    const meta: WorkMeta = (metaModule && typeof metaModule === 'object' && 'default' in metaModule)
-      ? (metaModule.default as WorkMeta)
-      : (metaModule as WorkMeta);
-
-    worksByFolder[folder] = {
-      slug,
-      folderPath: `/pages/${folder}`,
-      meta,
-      mainImageUrl: undefined,
-      main2ImageUrl: undefined,
-      albumImageUrls: [],
-    };
-  });
-
-  // Attach main image URLs
-  Object.entries(mainImageModules).forEach(([path, url]) => {
-    const folderMatch = path.match(/^\/pages\/([^\/]+)\//);
-    if (!folderMatch) return;
-    const folder = folderMatch[1];
-    if (!worksByFolder[folder]) {
-      // Create placeholder if JSON missing
-      worksByFolder[folder] = {
-        slug: folder,
-        folderPath: `/pages/${folder}`,
-        meta: { nom: folder },
-        mainImageUrl: url,
-        main2ImageUrl: undefined,
-        albumImageUrls: [],
-      };
-    } else {
-      worksByFolder[folder].mainImageUrl = url;
-    }
-  });
-
-  // Attach main2 image URLs
-  Object.entries(main2ImageModules).forEach(([path, url]) => {
-    const folderMatch = path.match(/^\/pages\/([^\/]+)\//);
-    if (!folderMatch) return;
-    const folder = folderMatch[1];
-    if (!worksByFolder[folder]) {
-      worksByFolder[folder] = {
-        slug: folder,
-        folderPath: `/pages/${folder}`,
-        meta: { nom: folder },
-        mainImageUrl: undefined,
-        main2ImageUrl: url,
-        albumImageUrls: [],
-      };
-    } else {
-      worksByFolder[folder].main2ImageUrl = url;
-    }
-  });
-
-  // Attach album images, sorted by filename (try to put main first)
-  const albumByFolder: Record<string, string[]> = {};
-  Object.entries(albumImageModules).forEach(([path, url]) => {
-    const match = path.match(/^\/pages\/([^\/]+)\/([^\/]+)$/);
-    if (!match) return;
-    const folder = match[1];
-    const fileName = match[2].toLowerCase();
-    if (!albumByFolder[folder]) albumByFolder[folder] = [];
-    albumByFolder[folder].push(url + `#${fileName}`); // tag filename to help sorting, stripped later
-  });
-
-  Object.entries(albumByFolder).forEach(([folder, urlsWithTags]) => {
-    const sorted = urlsWithTags
-      .sort((a, b) => {
-        const an = a.split('#')[1] ?? '';
-        const bn = b.split('#')[1] ?? '';
-        // Prefer files named 'main.*' first, then natural order
-        const aIsMain = an.startsWith('main.');
-        const bIsMain = bn.startsWith('main.');
-        if (aIsMain && !bIsMain) return -1;
-        if (!aIsMain && bIsMain) return 1;
-        return an.localeCompare(bn);
-      })
-      .map((u) => u.split('#')[0]);
-    if (!worksByFolder[folder]) {
-      worksByFolder[folder] = {
-        slug: folder,
-        folderPath: `/pages/${folder}`,
-        meta: { nom: folder },
-        albumImageUrls: sorted,
-      } as WorkItem;
-    } else {
-      worksByFolder[folder].albumImageUrls = sorted;
-      // If no explicit main image, pick first in sorted list
-      if (!worksByFolder[folder].mainImageUrl && sorted.length > 0) {
-        worksByFolder[folder].mainImageUrl = sorted[0];
-      }
-    }
-  });
-
-  // Only keep folders that at least have meta or images
-  const items = Object.values(worksByFolder).filter(
-    (w) => w.meta?.nom || w.mainImageUrl || (w.albumImageUrls && w.albumImageUrls.length > 0)
-  );
+const VIEW_MODES: ViewMode[] = ['grid', 'list', 'map', 'timeline'];
 
-  // Custom order: lleo, oliba (a.k.a. oliva), ovella, asparrac, somera, then the rest by year desc and name
-  const priorityOrder = ['lleo', 'oliba', 'ovella', 'asparrac', 'somera', 'oliva'];
-  items.sort((a, b) => {
-    const ai = priorityOrder.indexOf(a.slug);
-    const bi = priorityOrder.indexOf(b.slug);
-    if (ai !== -1 && bi !== -1) return ai - bi;
-    if (ai !== -1) return -1;
-    if (bi !== -1) return 1;
-    const ay = typeof a.meta.year === 'string' ? parseInt(a.meta.year, 10) : a.meta.year ?? -Infinity;
-    const by = typeof b.meta.year === 'string' ? parseInt(b.meta.year, 10) : b.meta.year ?? -Infinity;
-    if (Number.isFinite(ay) && Number.isFinite(by) && ay !== by) return (by as number) - (ay as number);
-    return (a.meta.nom || a.slug).localeCompare(b.meta.nom || b.slug);
-  });
-
-  return items;
+// Unknown or missing ?view= values fall back to the grid
+function parseViewMode(value: string | null): ViewMode {
+  return VIEW_MODES.includes(value as ViewMode) ? (value as ViewMode) : 'grid';
 }
 
+// Set when the drawer is opened from within L'Obra, so closing it can go back in history
+type ObraLocationState = { fromObra?: boolean } | null;
+
 export default function LObra() {
-  const { language } = useContext(LanguageContext);
+  const { language, t, localePath } = useTranslation();
   const { setIsModalOpen } = useContext(ModalContext);
-  const [view, setView] = useState<ViewMode>('grid');
-  const works = useMemo(() => buildWorks(), []);
-  const [selectedSlug, setSelectedSlug] = useState<string | null>(null);
-  const [currentImageIndex, setCurrentImageIndex] = useState<number>(0);
+  const { slug: selectedSlug, image } = useParams();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const view = parseViewMode(searchParams.get('view'));
+  const works = getWorks();
+  const locale = LANGUAGE_INFO[language].locale;
+  const filters = useMemo(() => parseWorkFilters(searchParams), [searchParams]);
+  const visibleWorks = useMemo(() => applyWorkFilters(works, filters, locale), [works, filters, locale]);
+
+  const selected = useMemo(() => (selectedSlug && getWorkQueries().bySlug(selectedSlug)) || null, [selectedSlug]);
+  const isDrawerOpen = !!selectedSlug;
+  // Previous/next follow the list as filtered and sorted; a work outside it (e.g. opened from a link) pages through all works
+  const sequence = selected && visibleWorks.includes(selected) ? visibleWorks : works;
+  const position = selected ? sequence.indexOf(selected) : -1;
+  const stepWork = (offset: number) => sequence[(position + offset + sequence.length) % sequence.length];
+  const imageCount = selected?.album.length ?? 0;
+
+  // The image segment in the URL is 1-based (/obra/lleo/3 is the third photo or clip of the album)
+  const currentImageIndex = useMemo(() => {
+    const n = image ? parseInt(image, 10) : 1;
+    if (!imageCount || !Number.isFinite(n)) return 0;
+    return Math.min(imageCount, Math.max(1, n)) - 1;
+  }, [image, imageCount]);
+  const currentEntry = selected?.album[currentImageIndex];
+  // The lightbox only pages through the photos: album position of its i-th photo
+  const albumIndexOfPhoto = (i: number) =>
+    selected ? selected.album.findIndex((e) => e.type === 'image' && e.image === selected.albumImages[i]) : -1;
+
+  const setView = (next: ViewMode) => {
+    const params = new URLSearchParams(searchParams);
+    if (next === 'grid') params.delete('view');
+    else params.set('view', next);
+    setSearchParams(params);
+  };
+
+  // Filters replace the history entry so typing in the search box doesn't pile up Back steps
+  const setFilters = (patch: Partial<WorkFilters>) => {
+    setSearchParams(writeWorkFilters(searchParams, { ...filters, ...patch }), { replace: true });
+  };
+
+  const openWork = useCallback(
+    (slug: string) => {
+      navigate({ pathname: localePath(`/obra/${slug}`), search: location.search }, { state: { fromObra: true } });
+    },
+    [navigate, localePath, location.search]
+  );
+
+  const closeWork = useCallback(() => {
+    if ((location.state as ObraLocationState)?.fromObra) {
+      navigate(-1);
+    } else {
+      navigate({ pathname: localePath('/obra'), search: location.search }, { replace: true });
+    }
+  }, [navigate, localePath, location.state, location.search]);
 
-  const selected = useMemo(() => works.find((w) => w.slug === selectedSlug) || null, [works, selectedSlug]);
+  // Moving to another work replaces the history entry too, so Back still closes the drawer
+  const showWork = (slug: string) => {
+    navigate({ pathname: localePath(`/obra/${slug}`), search: location.search }, { replace: true, state: location.state });
+  };
 
-  // Close on Esc
+  // Paging replaces the history entry so Back closes the drawer instead of stepping through photos
+  const setCurrentImageIndex = (update: (i: number) => number) => {
+    if (!selected || !imageCount) return;
+    const next = ((update(currentImageIndex) % imageCount) + imageCount) % imageCount;
+    const path = next === 0 ? `/obra/${selected.slug}` : `/obra/${selected.slug}/${next + 1}`;
+    navigate({ pathname: localePath(path), search: location.search }, { replace: true, state: location.state });
+  };
+
+  const [isLightboxOpen, setIsLightboxOpen] = useState(false);
   useEffect(() => {
-    const onKey = (e: KeyboardEvent) => {
-      if (e.key === 'Escape') setSelectedSlug(null);
-    };
-    window.addEventListener('keydown', onKey);
-    return () => window.removeEventListener('keydown', onKey);
-  }, []);
+    if (!isDrawerOpen) setIsLightboxOpen(false);
+  }, [isDrawerOpen]);
 
-  // Reset carousel index on selection change
+  const drawerRef = useRef<HTMLDivElement>(null);
+  // The drawer stays mounted for its slide transition; closed, it must not be reachable.
+  // Runs before useModalDialog so the drawer is no longer inert when it takes focus.
   useEffect(() => {
-    setCurrentImageIndex(0);
-  }, [selectedSlug]);
+    if (drawerRef.current) drawerRef.current.inert = !isDrawerOpen;
+  }, [isDrawerOpen]);
+  useModalDialog(drawerRef, isDrawerOpen);
 
   // Notify modal context when drawer state changes
   useEffect(() => {
-    setIsModalOpen(!!selectedSlug);
-  }, [selectedSlug, setIsModalOpen]);
+    setIsModalOpen(isDrawerOpen);
+  }, [isDrawerOpen, setIsModalOpen]);
 
-  // Carousel keyboard navigation when drawer open
+  // Start each work at the top of the drawer
+  const drawerContentRef = useRef<HTMLDivElement>(null);
   useEffect(() => {
-    if (!selected) return;
-    const onKey = (e: KeyboardEvent) => {
-      if (!selected?.albumImageUrls?.length) return;
-      if (e.key === 'ArrowRight') {
-        setCurrentImageIndex((i) => (i + 1) % selected.albumImageUrls.length);
-      } else if (e.key === 'ArrowLeft') {
-        setCurrentImageIndex((i) => (i - 1 + selected.albumImageUrls.length) % selected.albumImageUrls.length);
-      }
-    };
-    window.addEventListener('keydown', onKey);
-    return () => window.removeEventListener('keydown', onKey);
-  }, [selected]);
+    drawerContentRef.current?.scrollTo({ top: 0 });
+  }, [selectedSlug]);
 
-  const t = (keyCat: string, keyEn: string) => (language === 'catala' ? keyCat : keyEn);
+  // Esc closes, the arrows page the carousel and Shift+arrows move between works, only while focus is inside the drawer
+  const onDrawerKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      closeWork();
+      return;
+    }
+    if ((e.target as HTMLElement).closest('input, select, textarea, video')) return;
+    if (e.shiftKey && (e.key === 'ArrowLeft' || e.key === 'ArrowRight')) {
+      if (position === -1 || sequence.length < 2) return;
+      e.preventDefault();
+      showWork(stepWork(e.key === 'ArrowLeft' ? -1 : 1).slug);
+      return;
+    }
+    if (!imageCount) return;
+    if (e.key === 'ArrowRight') {
+      e.preventDefault();
+      setCurrentImageIndex((i) => i + 1);
+    } else if (e.key === 'ArrowLeft') {
+      e.preventDefault();
+      setCurrentImageIndex((i) => i - 1);
+    }
+  };
 
   return (
     <div className="container section">
       <div className="obra-header">
-        <h1 className="obra-title">{t("L'Obra", 'The Work')}</h1>
-        <div className="obra-toolbar" role="group" aria-label="View mode">
+        <h1 className="obra-title">{t('work.title')}</h1>
+        <div className="obra-toolbar" role="group" aria-label={t('work.viewMode')}>
           <button
             className={`view-toggle ${view === 'grid' ? 'active' : ''}`}
             onClick={() => setView('grid')}
           >
-            {t('Graella', 'Grid')}
+            {t('work.view.grid')}
           </button>
           <button
             className={`view-toggle ${view === 'list' ? 'active' : ''}`}
             onClick={() => setView('list')}
           >
-            {t('Línies', 'List')}
+            {t('work.view.list')}
           </button>
           <button
             className={`view-toggle ${view === 'map' ? 'active' : ''}`}
             onClick={() => setView('map')}
           >
-            {t('Mapa', 'Map')}
+            {t('work.view.map')}
           </button>
           <button
             className={`view-toggle ${view === 'timeline' ? 'active' : ''}`}
             onClick={() => setView('timeline')}
           >
-            {t('Cronològic', 'Timeline')}
+            {t('work.view.timeline')}
           </button>
         </div>
       </div>
 
-      {view === 'grid' ? (
+      <ObraFilters works={works} filters={filters} resultCount={visibleWorks.length} onChange={setFilters} />
+
+      {visibleWorks.length === 0 ? (
+        <div className="obra-empty">
+          <p>{t('work.noResults')}</p>
+        </div>
+      ) : view === 'grid' ? (
         <div className="obra-grid">
-          {works.map((w) => (
-            <button key={w.slug} className="obra-card" onClick={() => setSelectedSlug(w.slug)}>
-              {w.mainImageUrl ? (
-                <img className="obra-card-img" src={w.mainImageUrl} alt={w.meta.nom} loading="lazy" />
+          {visibleWorks.map((w) => (
+            <button key={w.slug} className="obra-card" onClick={() => openWork(w.slug)}>
+              {w.mainImage ? (
+                <ResponsiveImg
+                  className="obra-card-img"
+                  image={w.mainImage}
+                  alt={w.meta.nom}
+                  sizes="(max-width: 600px) 100vw, (max-width: 900px) 50vw, 360px"
+                />
               ) : (
                 <div className="obra-card-placeholder" />
               )}
@@ -262,14 +232,14 @@ export default function LObra() {
         </div>
       ) : view === 'list' ? (
         <div className="obra-list">
-          {works.map((w) => (
-            <button key={w.slug} className="obra-row" onClick={() => setSelectedSlug(w.slug)}>
-              {w.main2ImageUrl || w.mainImageUrl ? (
-                <img
+          {visibleWorks.map((w) => (
+            <button key={w.slug} className="obra-row" onClick={() => openWork(w.slug)}>
+              {w.main2Image || w.mainImage ? (
+                <ResponsiveImg
                   className="obra-row-thumb"
-                  src={w.main2ImageUrl || w.mainImageUrl}
+                  image={(w.main2Image || w.mainImage)!}
                   alt={w.meta.nom}
-                  loading="lazy"
+                  sizes="160px"
                 />
               ) : (
                 <div className="obra-row-thumb placeholder" />
@@ -279,28 +249,68 @@ export default function LObra() {
                 <div className="obra-row-meta">
                   {w.meta.year ? <span className="chip">{w.meta.year}</span> : null}
                   {w.meta.city ? <span className="chip">{w.meta.city}</span> : null}
+                  {w.albumImages.length ? (
+                    <span className="chip">{t('work.photoCount', { count: w.albumImages.length })}</span>
+                  ) : null}
                 </div>
               </div>
             </button>
           ))}
         </div>
       ) : view === 'map' ? (
-        <MapView works={works} onSelect={(slug) => setSelectedSlug(slug)} />
+        <MapSection works={visibleWorks} onSelect={openWork} />
       ) : (
-        <TimelineView works={works} onSelect={(slug) => setSelectedSlug(slug)} language={language} />
+        <TimelineView works={visibleWorks} onSelect={openWork} />
       )}
 
       {/* Drawer */}
-      <div className={`obra-drawer right ${selected ? 'open' : ''}`} aria-hidden={!selected}>
+      <div
+        ref={drawerRef}
+        className={`obra-drawer right ${isDrawerOpen ? 'open' : ''}`}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="obra-drawer-title"
+        tabIndex={-1}
+        onKeyDown={onDrawerKeyDown}
+      >
         <div className="obra-drawer-inner">
           <div className="obra-drawer-header">
-            <div className="obra-drawer-title">{selected?.meta.nom}</div>
-            <button className="close-btn" aria-label={t('Tancar', 'Close')} onClick={() => setSelectedSlug(null)}>
+            <h2 id="obra-drawer-title" className="obra-drawer-title">
+              {selected ? selected.meta.nom : isDrawerOpen ? t('work.notFound.title') : null}
+            </h2>
+            {selected && sequence.length > 1 ? (
+              <div className="obra-drawer-nav" role="group" aria-label={t('work.browse')}>
+                <button
+                  type="button"
+                  className="obra-drawer-nav-btn"
+                  aria-label={t('work.previousWork')}
+                  title={t('work.previousWork.shortcut')}
+                  aria-keyshortcuts="Shift+ArrowLeft"
+                  onClick={() => showWork(stepWork(-1).slug)}
+                >
+                  ‹
+                </button>
+                <span className="obra-drawer-nav-position">
+                  {t('work.position', { index: position + 1, count: sequence.length })}
+                </span>
+                <button
+                  type="button"
+                  className="obra-drawer-nav-btn"
+                  aria-label={t('work.nextWork')}
+                  title={t('work.nextWork.shortcut')}
+                  aria-keyshortcuts="Shift+ArrowRight"
+                  onClick={() => showWork(stepWork(1).slug)}
+                >
+                  ›
+                </button>
+              </div>
+            ) : null}
+            <button className="close-btn" aria-label={t('work.close')} onClick={closeWork}>
               ×
             </button>
           </div>
           {selected ? (
-            <div className="obra-drawer-content">
+            <div ref={drawerContentRef} className="obra-drawer-content">
               <div className="obra-drawer-meta">
                 {selected.meta.year ? (
                   <span className="chip chip-lg">
@@ -320,687 +330,548 @@ export default function LObra() {
                 ) : null}
               </div>
               <div className="obra-drawer-text text-lg text-justify">
-                {language === 'catala' ? (
-                  <p>{selected.meta.text_catala}</p>
-                ) : (
-                  <p>{selected.meta.text_angles}</p>
-                )}
+                <p>{workText(selected.meta, language)}</p>
               </div>
-              {selected.albumImageUrls?.length ? (
+              <WorkSheet meta={selected.meta} />
+              <WorkAppearances slug={selected.slug} />
+              {currentEntry ? (
                 <div className="obra-carousel">
-                  <img
-                    className="obra-carousel-img"
-                    src={selected.albumImageUrls[currentImageIndex]}
-                    alt={`${selected.meta.nom} ${currentImageIndex + 1}`}
-                    loading="lazy"
-                  />
-                  {selected.albumImageUrls.length > 1 ? (
+                  <div className="sr-only" aria-live="polite">
+                    {t('image.position', { index: currentImageIndex + 1, count: imageCount })}
+                  </div>
+                  {currentEntry.type === 'video' ? (
+                    // Keyed by clip so paging away stops playback instead of reusing the element
+                    <video
+                      key={currentEntry.video.sources[0].src}
+                      className="obra-carousel-img obra-carousel-video"
+                      controls
+                      playsInline
+                      preload="metadata"
+                      poster={currentEntry.video.poster?.src}
+                      aria-label={`${selected.meta.nom} ${currentImageIndex + 1}`}
+                    >
+                      {currentEntry.video.sources.map((source) => (
+                        <source key={source.src} src={source.src} type={source.type} />
+                      ))}
+                    </video>
+                  ) : (
+                    <button
+                      type="button"
+                      className="zoomable"
+                      title={t('lightbox.open')}
+                      onClick={() => setIsLightboxOpen(true)}
+                    >
+                      <ResponsiveImg
+                        className="obra-carousel-img"
+                        image={currentEntry.image}
+                        alt={`${selected.meta.nom} ${currentImageIndex + 1}`}
+                        sizes="(max-width: 768px) 100vw, 60vw"
+                        loading="eager"
+                      />
+                    </button>
+                  )}
+                  {imageCount > 1 ? (
                     <>
                       <button
                         className="carousel-btn prev"
-                        aria-label={t('Anterior', 'Previous')}
-                        onClick={() =>
-                          setCurrentImageIndex((i) => (i - 1 + selected.albumImageUrls.length) % selected.albumImageUrls.length)
-                        }
+                        aria-label={t('work.previous')}
+                        onClick={() => setCurrentImageIndex((i) => i - 1)}
                       >
                         ‹
                       </button>
                       <button
                         className="carousel-btn next"
-                        aria-label={t('Següent', 'Next')}
-                        onClick={() =>
-                          setCurrentImageIndex((i) => (i + 1) % selected.albumImageUrls.length)
-                        }
+                        aria-label={t('work.next')}
+                        onClick={() => setCurrentImageIndex((i) => i + 1)}
                       >
                         ›
                       </button>
-                      <div className="carousel-pager">
-                        {currentImageIndex + 1} / {selected.albumImageUrls.length}
+                      <div className="carousel-pager" aria-hidden="true">
+                        {currentImageIndex + 1} / {imageCount}
                       </div>
                     </>
                   ) : null}
                 </div>
               ) : null}
+              <WorkProcess key={selected.slug} name={selected.meta.nom} steps={selected.process} />
+              <RelatedWorks work={selected} works={works} />
+            </div>
+          ) : isDrawerOpen ? (
+            <div className="obra-drawer-content">
+              <div className="obra-not-found">
+                <p>
+                  {t('work.notFound.text')}
+                </p>
+                <button className="obra-not-found-back" onClick={closeWork}>
+                  {t('work.notFound.back')}
+                </button>
+              </div>
             </div>
           ) : null}
         </div>
       </div>
-      {selected ? <div className={`drawer-backdrop active`} onClick={() => setSelectedSlug(null)} /> : null}
+      {isDrawerOpen ? (
+        <div className={`drawer-backdrop active`} onClick={closeWork} data-modal-keep />
+      ) : null}
+      {isLightboxOpen && selected && currentEntry?.type === 'image' ? (
+        <Lightbox
+          images={selected.albumImages}
+          index={selected.albumImages.indexOf(currentEntry.image)}
+          onIndexChange={(i) => setCurrentImageIndex(() => albumIndexOfPhoto(i))}
+          onClose={() => setIsLightboxOpen(false)}
+          altFor={(i) => `${selected.meta.nom} ${albumIndexOfPhoto(i) + 1}`}
+        />
+      ) : null}
     </div>
   );
 }
 
-type MapViewProps = { works: WorkItem[]; onSelect: (slug: string) => void };
-
-function MapView({ works, onSelect }: MapViewProps) {
-  const mapContainerId = 'obra-map-container';
-  const mapRef = useRef<L.Map | null>(null);
-  const layerRef = useRef<L.LayerGroup | null>(null);
-
-  useEffect(() => {
-    if (mapRef.current) return;
-    const container = document.getElementById(mapContainerId);
-    if (!container) return;
-    const map = L.map(container).setView([41.7, 1.8], 7);
-    L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
-      attribution: '&copy; OpenStreetMap contributors',
-      maxZoom: 19,
-    }).addTo(map);
-    mapRef.current = map;
-    layerRef.current = L.layerGroup().addTo(map);
-  }, []);
-
-  useEffect(() => {
-    const map = mapRef.current;
-    const layer = layerRef.current;
-    if (!map || !layer) return;
-
-    type LatLng = { lat: number; lng: number };
-    const cacheKey = 'obra-geo-cache-v2';
-    const cache: Record<string, LatLng> = JSON.parse(localStorage.getItem(cacheKey) || '{}');
-    const addresses = works
-      .map((w) => ({ work: w, query: w.meta.address || w.meta.city || '' }))
-      .filter((x) => x.query);
-
-    const results: { work: WorkItem; position: LatLng }[] = [];
-
-    const geocode = async (query: string): Promise<LatLng | null> => {
-      if (cache[query]) return cache[query];
-      try {
-        const url = `https://nominatim.openstreetmap.org/search?format=json&limit=1&q=${encodeURIComponent(query)}`;
-        const res = await fetch(url, { headers: { Accept: 'application/json' } });
-        if (!res.ok) return null;
-        const data = (await res.json()) as Array<{ lat: string; lon: string }>;
-        if (data && data.length > 0) {
-          const pos = { lat: parseFloat(data[0].lat), lng: parseFloat(data[0].lon) };
-          cache[query] = pos;
-          localStorage.setItem(cacheKey, JSON.stringify(cache));
-          return pos;
-        }
-      } catch {}
-      return null;
-    };
-
-    const run = async () => {
-      for (const a of addresses) {
-        const pos = await geocode(a.query);
-        if (pos) results.push({ work: a.work, position: pos });
-      }
-
-      const groupKey = (p: LatLng) => `${p.lat.toFixed(4)},${p.lng.toFixed(4)}`;
-      const groups = new Map<string, { center: LatLng; items: { work: WorkItem; position: LatLng }[] }>();
-      results.forEach((r) => {
-        const key = groupKey(r.position);
-        const g = groups.get(key) || { center: r.position, items: [] };
-        g.items.push(r);
-        groups.set(key, g);
-      });
-
-      layer.clearLayers();
-      const bounds = L.latLngBounds([]);
-
-      groups.forEach((g) => {
-        const n = g.items.length;
-        // Build one composite marker per town with all images side-by-side
-        const itemsHtml = g.items
-          .map((r) => {
-            const iconUrl = r.work.mainImageUrl;
-            const name = r.work.meta.nom;
-            if (iconUrl) {
-              return `<div class="obra-marker-box" data-slug="${r.work.slug}"><img src="${iconUrl}" alt="${name}" /><div class="obra-marker-label">${name}</div></div>`;
-            }
-            return `<div class="obra-marker-box" data-slug="${r.work.slug}"><div class="obra-marker-fallback">${name}</div></div>`;
-          })
-          .join('');
-        const html = `<div class="obra-marker-row">${itemsHtml}</div>`;
-        const widthPer = 90; // approximate per item width including gap
-        const totalWidth = Math.max(90, n * widthPer);
-        const totalHeight = 130; // approximate
-        const icon = L.divIcon({
-          html,
-          className: 'obra-marker',
-          iconSize: [totalWidth, totalHeight],
-          iconAnchor: [totalWidth / 2, totalHeight - 20],
-        });
-        const pos = [g.center.lat, g.center.lng] as [number, number];
-        const marker = L.marker(pos, { icon, title: g.items.map((x) => x.work.meta.nom).join(', ') });
-        marker.addTo(layer);
-        const el = marker.getElement();
-        if (el) {
-          el.addEventListener('click', (e) => {
-            const target = (e.target as HTMLElement).closest('[data-slug]') as HTMLElement | null;
-            if (target) {
-              const slug = target.getAttribute('data-slug');
-              if (slug) onSelect(slug);
-            }
-          });
-        }
-        bounds.extend(pos as any);
-      });
-
-      if (bounds.isValid()) {
-        map.fitBounds(bounds, { padding: [60, 60] });
-      }
-    };
-
-    run();
-  }, [works, onSelect]);
+type ObraFiltersProps = {
+  works: WorkItem[];
+  filters: WorkFilters;
+  resultCount: number;
+  onChange: (patch: Partial<WorkFilters>) => void;
+};
 
-  useEffect(() => {
-    return () => {
-      if (mapRef.current) {
-        mapRef.current.remove();
-        mapRef.current = null;
-      }
-    };
-  }, []);
+function ObraFilters({ works, filters, resultCount, onChange }: ObraFiltersProps) {
+  const { language, t } = useTranslation();
+  const locale = LANGUAGE_INFO[language].locale;
+  const cities = useMemo(() => listCities(works, locale), [works, locale]);
+  const typologies = useMemo(() => listTypologies(works), [works]);
+  const materials = useMemo(() => listMaterials(works, locale), [works, locale]);
+  const collections = useMemo(() => listCollections(works), [works]);
+  const years = useMemo(() => {
+    const set = new Set<number>();
+    works.forEach((w) => {
+      const year = parseYear(w.meta.year);
+      if (year !== null) set.add(year);
+    });
+    return Array.from(set).sort((a, b) => a - b);
+  }, [works]);
 
-  return <div id={mapContainerId} className="obra-map" style={{ position: 'relative', zIndex: 1 }} />;
-}
+  const parseYearOption = (value: string) => (value ? Number(value) : null);
 
-type TimelineViewProps = { works: WorkItem[]; onSelect: (slug: string) => void; language: Language };
-
-function monthToIndex(m?: string | number): number | null {
-  if (m === undefined || m === null) return null;
-  if (typeof m === 'number') return Math.min(11, Math.max(0, m - 1));
-  const s = m.toString().trim().toLowerCase();
-  const map: Record<string, number> = {
-    'january': 0, 'jan': 0, 'gener': 0, 'ene': 0,
-    'february': 1, 'feb': 1, 'febrer': 1,
-    'march': 2, 'mar': 2, 'març': 2, 'marzo': 2,
-    'april': 3, 'apr': 3, 'abril': 3,
-    'may': 4, 'mai': 4, 'mayo': 4, 'maig': 4,
-    'june': 5, 'jun': 5, 'juny': 5, 'junio': 5,
-    'july': 6, 'jul': 6, 'juliol': 6, 'julio': 6,
-    'august': 7, 'aug': 7, 'agost': 7,
-    'september': 8, 'sep': 8, 'setembre': 8,
-    'october': 9, 'oct': 9, 'octubre': 9,
-    'november': 10, 'nov': 10, 'novembre': 10,
-    'december': 11, 'dec': 11, 'desembre': 11, 'diciembre': 11,
-  };
-  return map[s] ?? null;
+  return (
+    <div className="obra-filters" role="search" aria-label={t('work.filters')}>
+      <div className="obra-filters-row">
+        <input
+          type="search"
+          className="obra-search"
+          value={filters.query}
+          placeholder={t('work.search.placeholder')}
+          aria-label={t('work.search')}
+          onChange={(e) => onChange({ query: e.target.value })}
+        />
+        <label className="obra-filter-field">
+          <span>{t('work.filter.from')}</span>
+          <select
+            value={filters.yearFrom ?? ''}
+            onChange={(e) => onChange({ yearFrom: parseYearOption(e.target.value) })}
+          >
+            <option value="">{t('work.filter.anyYear')}</option>
+            {years.map((y) => (
+              <option key={y} value={y} disabled={filters.yearTo !== null && y > filters.yearTo}>
+                {y}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="obra-filter-field">
+          <span>{t('work.filter.to')}</span>
+          <select
+            value={filters.yearTo ?? ''}
+            onChange={(e) => onChange({ yearTo: parseYearOption(e.target.value) })}
+          >
+            <option value="">{t('work.filter.anyYear')}</option>
+            {years.map((y) => (
+              <option key={y} value={y} disabled={filters.yearFrom !== null && y < filters.yearFrom}>
+                {y}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="obra-filter-field">
+          <span>{t('work.sort')}</span>
+          <select value={filters.sort} onChange={(e) => onChange({ sort: e.target.value as WorkSort })}>
+            {WORK_SORTS.map((sort) => (
+              <option key={sort} value={sort}>
+                {t(`work.sort.${sort}`)}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <FilterChips
+        label={t('work.filter.collection')}
+        options={collections.map((c) => ({ value: c.id, label: collectionTitle(c, language) }))}
+        selected={filters.collections}
+        onChange={(collections) => onChange({ collections })}
+      />
+      <FilterChips
+        label={t('work.filter.city')}
+        options={cities.map((city) => ({ value: city, label: city }))}
+        selected={filters.cities}
+        onChange={(cities) => onChange({ cities })}
+      />
+      <FilterChips
+        label={t('work.filter.typology')}
+        options={typologies.map((typology) => ({ value: typology, label: t(`work.typology.${typology}`) }))}
+        selected={filters.typologies}
+        onChange={(typologies) => onChange({ typologies: typologies as WorkTypology[] })}
+      />
+      <FilterChips
+        label={t('work.filter.material')}
+        options={materials.map((material) => ({ value: material, label: material }))}
+        selected={filters.materials}
+        onChange={(materials) => onChange({ materials })}
+      />
+      <div className="obra-filters-status">
+        <span aria-live="polite">{t('work.resultCount', { count: resultCount })}</span>
+        {hasActiveFilters(filters) ? (
+          <button
+            type="button"
+            className="obra-filters-clear"
+            onClick={() => onChange(clearWorkFilters(filters))}
+          >
+            {t('work.filter.clear')}
+          </button>
+        ) : null}
+      </div>
+    </div>
+  );
 }
 
-function TimelineView({ works, onSelect, language }: TimelineViewProps) {
-  const containerRef = useRef<HTMLDivElement | null>(null);
-  const [width, setWidth] = useState<number>(1000);
-  const [isMobile, setIsMobile] = useState<boolean>(false);
+// Fitxa tècnica of the drawer; only the fields present in the JSON are listed
+function WorkSheet({ meta }: { meta: WorkMeta }) {
+  const { language, t } = useTranslation();
+  const locale = LANGUAGE_INFO[language].locale;
+  const rows: [MessageKey, string][] = [];
+  if (meta.typology) rows.push(['work.sheet.typology', t(`work.typology.${meta.typology}`)]);
+  if (meta.materials?.length) rows.push(['work.sheet.materials', meta.materials.join(', ')]);
+  if (meta.height) rows.push(['work.sheet.height', formatMeasurement(meta.height, locale)]);
+  if (meta.weight) rows.push(['work.sheet.weight', formatMeasurement(meta.weight, locale)]);
+  if (meta.commissioner) rows.push(['work.sheet.commissioner', meta.commissioner]);
+  if (meta.collaborators?.length) rows.push(['work.sheet.collaborators', meta.collaborators.join(', ')]);
+  if (rows.length === 0) return null;
 
-  useEffect(() => {
-    const el = containerRef.current;
-    const update = () => {
-      if (el) {
-        const newWidth = el.clientWidth;
-        setWidth(newWidth);
-        setIsMobile(newWidth <= 768);
-      }
-    };
-    update();
-    const ro = new ResizeObserver(update);
-    if (el) ro.observe(el);
-    return () => ro.disconnect();
-  }, []);
-
-  const timelineData = useMemo(() => {
-    // Group works by year and month
-    const yearMap = new Map<number, Map<number, WorkItem[]>>();
-    
-    works.forEach((work) => {
-      const year = typeof work.meta.year === 'string' ? parseInt(work.meta.year, 10) : work.meta.year;
-      if (!year || isNaN(year)) return;
-      
-      const monthIndex = monthToIndex(work.meta.month) ?? 0;
-      
-      if (!yearMap.has(year)) {
-        yearMap.set(year, new Map());
-      }
-      
-      const monthMap = yearMap.get(year)!;
-      if (!monthMap.has(monthIndex)) {
-        monthMap.set(monthIndex, []);
-      }
-      
-      monthMap.get(monthIndex)!.push(work);
-    });
+  return (
+    <section className="obra-sheet" aria-labelledby="obra-sheet-title">
+      <h3 id="obra-sheet-title" className="obra-sheet-title">
+        {t('work.sheet.title')}
+      </h3>
+      <dl className="obra-sheet-list">
+        {rows.map(([key, value]) => (
+          <div key={key} className="obra-sheet-row">
+            <dt>{t(key)}</dt>
+            <dd>{value}</dd>
+          </div>
+        ))}
+      </dl>
+    </section>
+  );
+}
 
-    // Get all years that have works
-    const yearsWithWorks = Array.from(yearMap.keys()).sort((a, b) => b - a); // Latest first
-    
-    // Create timeline points for ALL months of each year that has works
-    const timePoints: Array<{
-      year: number;
-      month: number;
-      works: WorkItem[];
-      timestamp: number;
-    }> = [];
-
-    yearsWithWorks.forEach(year => {
-      const monthMap = yearMap.get(year)!;
-      
-      // Add all 12 months for this year
-      for (let month = 0; month < 12; month++) {
-        const works = monthMap.get(month) || [];
-        timePoints.push({
-          year,
-          month,
-          works,
-          timestamp: year * 12 + month
-        });
-      }
-    });
+// The figure's upcoming festival appearances, from agenda.json
+function WorkAppearances({ slug }: { slug: string }) {
+  const { language, t, localePath } = useTranslation();
+  const today = useAgendaToday();
+  const events = useMemo(() => upcomingEventsForWork(getEvents(), slug, today), [slug, today]);
+  if (events.length === 0) return null;
 
-    // Sort by timestamp (latest first for top-to-bottom)
-    timePoints.sort((a, b) => b.timestamp - a.timestamp);
-    
-    return timePoints;
-  }, [works]);
+  return (
+    <section className="obra-sheet obra-appearances" aria-labelledby="obra-appearances-title">
+      <h3 id="obra-appearances-title" className="obra-sheet-title">
+        {t('work.appearances')}
+      </h3>
+      <ul className="obra-appearances-list">
+        {events.map((event) => (
+          <li key={event.id} className="obra-appearance">
+            <Link to={localePath(`/agenda#${event.id}`)} className="obra-appearance-title">
+              {eventTitle(event, language)}
+            </Link>
+            <span className="obra-appearance-meta">
+              <time dateTime={event.start}>{formatEventDates(event, language)}</time> · {event.city}
+            </span>
+            <AddToCalendar event={event} className="obra-appearance-ics" />
+          </li>
+        ))}
+      </ul>
+      <Link to={localePath('/agenda')} className="obra-appearances-all">
+        {t('work.appearances.all')}
+      </Link>
+    </section>
+  );
+}
 
-  const centerX = width / 2;
-  const baseSpacing = isMobile ? 25 : 35; // Reduced spacing on mobile
-  const extraSpacingForWorks = isMobile ? 70 : 95; // Reduced extra spacing on mobile
-  
-  // Calculate path points vertically with dynamic spacing
-  const pathPoints = useMemo(() => {
-    if (timelineData.length === 0) return [];
-    
-    let cumulativeY = isMobile ? 60 : 100; // Start closer to top on mobile
-    
-    return timelineData.map((point, index) => {
-      const hasWorks = point.works.length > 0;
-      const spacing = hasWorks ? baseSpacing + extraSpacingForWorks : baseSpacing;
-      
-      const y = cumulativeY;
-      cumulativeY += spacing;
-      
-      // Create a gentle horizontal wave - reduced on mobile
-      const waveOffset = Math.sin(index * 0.3) * (isMobile ? 120 : 260); 
-      const x = centerX + waveOffset;
-      
-      return {
-        x,
-        y,
-        ...point
-      };
-    });
-  }, [timelineData, centerX, baseSpacing, extraSpacingForWorks, isMobile]);
-
-  // Calculate total height based on actual positions
-  const totalHeight = pathPoints.length > 0 
-    ? pathPoints[pathPoints.length - 1].y + (isMobile ? 120 : 200)
-    : (isMobile ? 400 : 600);
-
-  // Generate SVG path for vertical timeline
-  const pathData = useMemo(() => {
-    if (pathPoints.length === 0) return '';
-    
-    let path = `M ${pathPoints[0].x} ${pathPoints[0].y}`;
-    
-    // Use smooth curves for vertical path
-    for (let i = 1; i < pathPoints.length; i++) {
-      const prev = pathPoints[i - 1];
-      const curr = pathPoints[i];
-      
-      // Calculate control points for smooth vertical curve
-      const cp1X = prev.x;
-      const cp1Y = prev.y + (curr.y - prev.y) * 0.3;
-      const cp2X = curr.x;
-      const cp2Y = curr.y - (curr.y - prev.y) * 0.3;
-      
-      path += ` C ${cp1X} ${cp1Y}, ${cp2X} ${cp2Y}, ${curr.x} ${curr.y}`;
-    }
-    
-    return path;
-  }, [pathPoints]);
-
-  const getMonthName = (monthIndex: number): string => {
-    const monthNames = language === 'catala' 
-      ? ['Gener', 'Febrer', 'Març', 'Abril', 'Maig', 'Juny', 'Juliol', 'Agost', 'Setembre', 'Octubre', 'Novembre', 'Desembre']
-      : ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
-    return monthNames[monthIndex] || '';
-  };
-  
+// Works sharing the town, typology or time of the open one; they open in place of it
+function RelatedWorks({ work, works }: { work: WorkItem; works: WorkItem[] }) {
+  const { t, localePath } = useTranslation();
+  const location = useLocation();
+  const related = useMemo(() => relatedWorks(work, works), [work, works]);
+  if (related.length === 0) return null;
 
   return (
-    <div ref={containerRef} className="timeline-path-container" style={{ height: `${totalHeight}px`, position: 'relative', width: '100%' }}>
-      
-      {/* SVG Path */}
-      <svg 
-        className="timeline-svg" 
-        width={width} 
-        height={totalHeight}
-        style={{ position: 'absolute', top: 0, left: 0, zIndex: 1 }}
-      >
-        <defs>
-          <marker id="timeline-arrow" markerWidth="8" markerHeight="8" refX="6" refY="3" orient="auto">
-            <path d="M0,0 L0,6 L6,3 z" fill="#a67c5a" />
-          </marker>
-          
-          {/* Brown pastel gradient for the path */}
-          <linearGradient id="brownPathGradient" x1="0%" y1="0%" x2="0%" y2="100%">
-            <stop offset="0%" stopColor="#d4b896" />
-            <stop offset="50%" stopColor="#c4a67a" />
-            <stop offset="100%" stopColor="#a67c5a" />
-          </linearGradient>
-        </defs>
-        
-        {/* Main dashed path */}
-        <path
-          d={pathData}
-          stroke="url(#brownPathGradient)"
-          strokeWidth={isMobile ? "2" : "3"}
-          strokeDasharray="12,6"
-          fill="none"
-          markerEnd="url(#timeline-arrow)"
-        />
-        
-        {/* Timeline points */}
-        {pathPoints.map((point, index) => {
-          const hasWorks = point.works.length > 0;
-          const isCurrentYear = index === 0 || pathPoints[index - 1]?.year !== point.year;
-          
-          return (
-            <g key={`${point.year}-${point.month}`}>
-              {/* Point circle - larger if it has works */}
-              <circle
-                cx={point.x}
-                cy={point.y}
-                r={hasWorks ? (isMobile ? 8 : 10) : (isMobile ? 4 : 6)}
-                fill="white"
-                stroke="#a67c5a"
-                strokeWidth={hasWorks ? (isMobile ? 2 : 3) : (isMobile ? 1 : 2)}
-                opacity={hasWorks ? 1 : 0.6}
-              />
-              
-              {/* Year label - only show on first month of each year */}
-              {isCurrentYear && (
-                <text
-                  x={point.x + (isMobile ? 15 : 25)}
-                  y={point.y - (isMobile ? 6 : 8)}
-                  textAnchor="start"
-                  className="timeline-date-label"
-                  style={{
-                    fontSize: isMobile ? '14px' : '18px',
-                    fontWeight: '700',
-                    fill: '#8b6f3d',
-                    fontFamily: 'system-ui, sans-serif'
-                  }}
-                >
-                  {point.year}
-                </text>
-              )}
-              
-              {/* Month label - always show */}
-              <text
-                x={point.x + (isMobile ? 15 : 25)}
-                y={point.y + (isCurrentYear ? (isMobile ? 6 : 8) : (isMobile ? 3 : 4))}
-                textAnchor="start"
-                className="timeline-month-label"
-                style={{
-                  fontSize: hasWorks ? (isMobile ? '11px' : '14px') : (isMobile ? '9px' : '12px'),
-                  fontWeight: hasWorks ? '600' : '400',
-                  fill: hasWorks ? '#a67c5a' : '#c4a67a',
-                  fontFamily: 'system-ui, sans-serif'
-                }}
-              >
-                {getMonthName(point.month)}
-              </text>
-            </g>
-          );
-        })}
-      </svg>
-      
-      {/* Work items */}
-      {pathPoints.map((point, index) => {
-        if (point.works.length === 0) return null;
-        
-        return point.works.map((work, workIndex) => {
-          const totalWorks = point.works.length;
-          
-          // For single work: place on left side
-          // For multiple works: alternate left/right starting with left
-          let isLeft;
-          if (totalWorks === 1) {
-            isLeft = true;
-          } else {
-            isLeft = workIndex % 2 === 0;
-          }
-          
-          const sideMultiplier = isLeft ? -1 : 1;
-          const distance = isMobile ? 100 : 150; // Reduced distance on mobile
-          
-          const itemX = point.x + sideMultiplier * distance;
-          const itemY = point.y + (workIndex * (isMobile ? 6 : 10)); // Reduced stagger on mobile
-          
+    <section className="obra-related" aria-labelledby="obra-related-title">
+      <h3 id="obra-related-title" className="obra-sheet-title">
+        {t('work.related')}
+      </h3>
+      <ul className="obra-related-list">
+        {related.map((w) => {
+          const image = w.main2Image ?? w.mainImage;
           return (
-            <div
-              key={`${work.slug}-${index}`}
-              className="timeline-work-item"
-              style={{
-                position: 'absolute',
-                left: itemX,
-                top: itemY,
-                transform: 'translate(-50%, -50%)',
-                zIndex: 10,
-              }}
-            >
-              {/* Connection line */}
-              <svg
-                style={{
-                  position: 'absolute',
-                  left: '50%',
-                  top: '50%',
-                  width: distance + (isMobile ? 30 : 50),
-                  height: isMobile ? 30 : 50,
-                  transform: 'translate(-50%, -50%)',
-                  zIndex: -1,
-                  pointerEvents: 'none'
-                }}
-              >
-                <line
-                  x1={isLeft ? distance + (isMobile ? 15 : 25) : (isMobile ? 15 : 25)}
-                  y1={isMobile ? 15 : 25}
-                  x2={isLeft ? (isMobile ? 15 : 25) : distance + (isMobile ? 15 : 25)}
-                  y2={isMobile ? 15 : 25}
-                  stroke="#c4a67a"
-                  strokeWidth="1.5"
-                  strokeDasharray="4,3"
-                />
-              </svg>
-              
-              {/* Work card */}
-              <button
-                className="timeline-work-card"
-                onClick={() => onSelect(work.slug)}
-                style={{
-                  display: 'flex',
-                  flexDirection: 'column',
-                  alignItems: 'center',
-                  padding: isMobile ? '8px' : '12px',
-                  background: 'white',
-                  borderRadius: '12px',
-                  border: '2px solid #d4b896',
-                  cursor: 'pointer',
-                  minWidth: isMobile ? '100px' : '140px',
-                  maxWidth: isMobile ? '120px' : '160px',
-                  boxShadow: '0 4px 12px rgba(166, 124, 90, 0.15)',
-                }}
+            <li key={w.slug}>
+              <Link
+                to={{ pathname: localePath(`/obra/${w.slug}`), search: location.search }}
+                replace
+                state={location.state}
+                className="obra-related-card"
               >
-                {work.main2ImageUrl || work.mainImageUrl ? (
-                  <img
-                    src={work.main2ImageUrl || work.mainImageUrl}
-                    alt={work.meta.nom}
-                    style={{
-                      width: isMobile ? '60px' : '80px',
-                      height: isMobile ? '60px' : '80px',
-                      objectFit: 'cover',
-                      borderRadius: '8px',
-                      marginBottom: isMobile ? '6px' : '8px',
-                      border: '1px solid #d4b896'
-                    }}
-                    loading="lazy"
-                  />
+                {image ? (
+                  <ResponsiveImg className="obra-related-img" image={image} alt="" sizes="180px" />
                 ) : (
-                  <div
-                    style={{
-                      width: isMobile ? '60px' : '80px',
-                      height: isMobile ? '60px' : '80px',
-                      backgroundColor: '#f4f1e8',
-                      border: '1px solid #d4b896',
-                      borderRadius: '8px',
-                      marginBottom: isMobile ? '6px' : '8px',
-                      display: 'flex',
-                      alignItems: 'center',
-                      justifyContent: 'center',
-                      fontSize: isMobile ? '20px' : '28px',
-                      color: '#a67c5a'
-                    }}
-                  >
-                    🎨
-                  </div>
+                  <span className="obra-related-img placeholder" />
                 )}
-                
-                <div
-                  style={{
-                    fontSize: isMobile ? '11px' : '13px',
-                    fontWeight: '600',
-                    color: '#8b6f3d',
-                    textAlign: 'center',
-                    lineHeight: '1.3',
-                    marginBottom: '4px',
-                    overflow: 'hidden',
-                    textOverflow: 'ellipsis',
-                    display: '-webkit-box',
-                    WebkitLineClamp: 2,
-                    WebkitBoxOrient: 'vertical'
-                  }}
-                >
-                  {work.meta.nom}
-                </div>
-                
-                {work.meta.city && (
-                  <div
-                    style={{
-                      fontSize: isMobile ? '9px' : '11px',
-                      color: '#a67c5a',
-                      textAlign: 'center',
-                      padding: isMobile ? '1px 6px' : '2px 8px',
-                      backgroundColor: '#f4f1e8',
-                      borderRadius: '12px',
-                      border: '1px solid #e6d4b8'
-                    }}
-                  >
-                    {work.meta.city}
-                  </div>
-                )}
-              </button>
-            </div>
+                <span className="obra-related-title">{w.meta.nom}</span>
+                <span className="obra-related-meta">{[w.meta.city, w.meta.year].filter(Boolean).join(' · ')}</span>
+              </Link>
+            </li>
           );
-        });
+        })}
+      </ul>
+    </section>
+  );
+}
+
+type FilterChipsProps = {
+  label: string;
+  options: { value: string; label: string }[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+};
+
+// Toggle chips for a multi-value filter; hidden when no work provides a value
+function FilterChips({ label, options, selected, onChange }: FilterChipsProps) {
+  if (options.length === 0) return null;
+  // Params may differ in accents from the chip values (e.g. a hand-typed ?city=solsona)
+  const isActive = (value: string) => selected.some((s) => normalizeText(s) === normalizeText(value));
+  const toggle = (value: string) =>
+    onChange(isActive(value) ? selected.filter((s) => normalizeText(s) !== normalizeText(value)) : [...selected, value]);
+
+  return (
+    <div className="obra-filters-row" role="group" aria-label={label}>
+      {options.map(({ value, label }) => {
+        const active = isActive(value);
+        return (
+          <button
+            key={value}
+            type="button"
+            className={`filter-chip ${active ? 'active' : ''}`}
+            aria-pressed={active}
+            onClick={() => toggle(value)}
+          >
+            {label}
+          </button>
+        );
       })}
-      
-      {/* Timeline direction indicator - hidden on mobile */}
-      {!isMobile && (
-        <div
-          style={{
-            position: 'fixed',
-            bottom: '20px',
-            right: '20px',
-            display: 'flex',
-            alignItems: 'center',
-            gap: '8px',
-            padding: '8px 16px',
-            background: 'rgba(255,255,255,0.95)',
-            borderRadius: '24px',
-            fontSize: '12px',
-            color: '#8b6f3d',
-            fontWeight: '600',
-            zIndex: 100,
-            border: '1px solid #d4b896',
-            boxShadow: '0 4px 12px rgba(166, 124, 90, 0.15)'
-          }}
-        >
-          <span>{language === 'catala' ? 'Cronològic' : 'Timeline'}</span>
-          <div style={{ 
-            width: '2px', 
-            height: '16px', 
-            background: 'linear-gradient(to bottom, #d4b896, #a67c5a)',
-            borderRadius: '1px'
-          }} />
-          <span style={{ transform: 'rotate(90deg)' }}>→</span>
-        </div>
+    </div>
+  );
+}
+
+type MapShows = 'works' | 'nextMonth';
+
+// The map with a switch between every work and only next month's festival appearances
+function MapSection({ works, onSelect }: { works: WorkItem[]; onSelect: (slug: string) => void }) {
+  const { t } = useTranslation();
+  const [shows, setShows] = useState<MapShows>('works');
+  const events = useMemo(() => (shows === 'nextMonth' ? eventsInNextMonth(getEvents()) : undefined), [shows]);
+  const hasAppearances = !!events && events.some((e) => works.some((w) => e.works.includes(w.slug)));
+
+  return (
+    <div className="obra-map-section">
+      <div className="obra-map-toolbar" role="group" aria-label={t('work.map.show')}>
+        {(['works', 'nextMonth'] as const).map((option) => (
+          <button
+            key={option}
+            type="button"
+            className={`view-toggle ${shows === option ? 'active' : ''}`}
+            aria-pressed={shows === option}
+            onClick={() => setShows(option)}
+          >
+            {t(`work.map.show.${option}`)}
+          </button>
+        ))}
+      </div>
+      {events && !hasAppearances && (
+        <p className="obra-map-note" role="status">
+          {t('work.map.noEvents')}
+        </p>
       )}
+      <WorkMap works={works} onSelect={onSelect} events={events} />
     </div>
   );
 }
-type CalendarViewProps = { works: WorkItem[]; onSelect: (slug: string) => void; language: Language };
 
-function getMonthNames(language: Language): string[] {
-  if (language === 'catala') {
-    return ['Gener', 'Febrer', 'Març', 'Abril', 'Maig', 'Juny', 'Juliol', 'Agost', 'Setembre', 'Octubre', 'Novembre', 'Desembre'];
-  }
-  return ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+type TimelineViewProps = { works: WorkItem[]; onSelect: (slug: string) => void };
+
+// Length of the dashed stretch standing in for a gap: it grows with the time skipped, within limits
+const gapHeight = (unit: 'year' | 'month', length: number) => (unit === 'year' ? Math.min(length, 4) * 24 : Math.min(length, 6) * 8);
+
+function TimelineMark({ kind }: { kind: 'year' | 'month' | 'undated' }) {
+  return (
+    <svg className={`timeline-mark ${kind}`} width="24" height="24" viewBox="0 0 24 24" aria-hidden="true">
+      <circle cx="12" cy="12" r={kind === 'year' ? 9 : 6} />
+    </svg>
+  );
 }
 
-function CalendarView({ works, onSelect, language }: CalendarViewProps) {
-  const months = getMonthNames(language);
+function TimelineWorks({ works, onSelect }: TimelineViewProps) {
+  return (
+    <ul className="timeline-works">
+      {works.map((work) => (
+        <li key={work.slug}>
+          <button type="button" className="timeline-card" data-timeline-stop onClick={() => onSelect(work.slug)}>
+            {work.main2Image || work.mainImage ? (
+              <ResponsiveImg className="timeline-card-img" image={(work.main2Image || work.mainImage)!} alt="" sizes="64px" />
+            ) : (
+              <span className="timeline-card-img placeholder" />
+            )}
+            <span className="timeline-card-title">{work.meta.nom}</span>
+            {work.meta.city && <span className="timeline-card-meta">{work.meta.city}</span>}
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
 
-  const groups = useMemo(() => {
-    // Group by year first
-    const byYear = new Map<number, WorkItem[]>();
-    works.forEach((w) => {
-      const y = typeof w.meta.year === 'string' ? parseInt(w.meta.year, 10) : (w.meta.year as number | undefined);
-      if (!y || Number.isNaN(y)) return;
-      const arr = byYear.get(y) || [];
-      arr.push(w);
-      byYear.set(y, arr);
+function TimelineView({ works, onSelect }: TimelineViewProps) {
+  const { t, formatMonth } = useTranslation();
+  const [zoom, setZoom] = useState<TimelineZoom>('months');
+  // Years opened or closed by hand against the zoom level; cleared when the zoom changes
+  const [toggled, setToggled] = useState<ReadonlySet<number>>(new Set());
+  const listRef = useRef<HTMLOListElement>(null);
+
+  const entries = useMemo(
+    () => buildTimeline(works, (year) => (zoom === 'months') !== toggled.has(year)),
+    [works, zoom, toggled]
+  );
+
+  const changeZoom = (next: TimelineZoom) => {
+    setZoom(next);
+    setToggled(new Set());
+  };
+
+  const toggleYear = (year: number) =>
+    setToggled((prev) => {
+      const next = new Set(prev);
+      if (!next.delete(year)) next.add(year);
+      return next;
     });
-    // Sort years desc, and within year keep stable order; monthIndex computed for placement
-    return Array.from(byYear.entries())
-      .sort((a, b) => b[0] - a[0])
-      .map(([year, items]) => ({ year, items }));
-  }, [works]);
+
+  // Up/Down, Home/End walk through the years and works in order; Right/Left open and close a year
+  const onKeyDown = (e: React.KeyboardEvent<HTMLOListElement>) => {
+    const stops = Array.from(listRef.current?.querySelectorAll<HTMLElement>('[data-timeline-stop]') ?? []);
+    const current = document.activeElement as HTMLElement | null;
+    const index = current ? stops.indexOf(current) : -1;
+    if (index === -1) return;
+    const focus = (i: number) => {
+      e.preventDefault();
+      stops[Math.max(0, Math.min(stops.length - 1, i))].focus();
+    };
+    if (e.key === 'ArrowDown') focus(index + 1);
+    else if (e.key === 'ArrowUp') focus(index - 1);
+    else if (e.key === 'Home') focus(0);
+    else if (e.key === 'End') focus(stops.length - 1);
+    else if ((e.key === 'ArrowRight' || e.key === 'ArrowLeft') && current?.dataset.year) {
+      const expanded = current.getAttribute('aria-expanded') === 'true';
+      if (expanded === (e.key === 'ArrowLeft')) {
+        e.preventDefault();
+        toggleYear(Number(current.dataset.year));
+      }
+    }
+  };
+
+  const range = (from: string, to: string) => (from === to ? from : `${from}–${to}`);
 
   return (
-    <div className="calendar">
-      {groups.map(({ year, items }) => {
-        const buckets: WorkItem[][] = Array.from({ length: 12 }, () => []);
-        const unknown: WorkItem[] = [];
-        items.forEach((w) => {
-          const idx = monthToIndex(w.meta.month ?? undefined);
-          if (idx === null) unknown.push(w);
-          else buckets[idx].push(w);
-        });
-        // Spread unknown across year evenly
-        unknown.forEach((w, i) => {
-          const target = Math.round((i / Math.max(1, unknown.length - 1)) * 11);
-          buckets[target].push(w);
-        });
+    <div className="timeline">
+      <div className="timeline-toolbar">
+        <div className="timeline-zoom" role="group" aria-label={t('work.timeline.zoom')}>
+          {(['years', 'months'] as const).map((level) => (
+            <button
+              key={level}
+              type="button"
+              className={`view-toggle ${zoom === level ? 'active' : ''}`}
+              aria-pressed={zoom === level}
+              onClick={() => changeZoom(level)}
+            >
+              {t(`work.timeline.${level}`)}
+            </button>
+          ))}
+        </div>
+        <p id="timeline-keys" className="timeline-hint">
+          {t('work.timeline.keys')}
+        </p>
+      </div>
 
-        return (
-          <div key={year} className="calendar-year">
-            <div className="calendar-year-header">{year}</div>
-            <div className="calendar-grid">
-              {buckets.map((list, m) => (
-                <div key={m} className="calendar-month">
-                  <div className="calendar-month-title">{months[m]}</div>
-                  <div className="calendar-month-items">
-                    {list.map((w) => (
-                      <button key={w.slug} className="calendar-item" onClick={() => onSelect(w.slug)}>
-                        {w.main2ImageUrl || w.mainImageUrl ? (
-                          <img src={w.main2ImageUrl || w.mainImageUrl} alt={w.meta.nom} loading="lazy" />
-                        ) : (
-                          <div className="calendar-item-placeholder" />
-                        )}
-                        <div className="calendar-item-name">{w.meta.nom}</div>
-                      </button>
-                    ))}
-                  </div>
-                </div>
-              ))}
-            </div>
-          </div>
-        );
-      })}
+      <ol ref={listRef} className="timeline-list" onKeyDown={onKeyDown} aria-describedby="timeline-keys">
+        {entries.map((entry) => {
+          if (entry.kind === 'gap') {
+            const label =
+              entry.unit === 'year'
+                ? range(String(entry.from), String(entry.to))
+                : range(formatMonth(entry.from), formatMonth(entry.to));
+            const height = gapHeight(entry.unit, entry.length);
+            return (
+              <li key={`gap-${entry.unit}-${entry.year}-${entry.from}`} className="timeline-entry gap">
+                <span className="timeline-label">{t('work.timeline.gap', { range: label })}</span>
+                <span className="timeline-axis">
+                  <svg className="timeline-mark gap" width="24" height={height} aria-hidden="true">
+                    <line x1="12" y1="0" x2="12" y2={height} />
+                  </svg>
+                </span>
+              </li>
+            );
+          }
+          if (entry.kind === 'year') {
+            return (
+              <li key={`year-${entry.year}`} className="timeline-entry year">
+                <button
+                  type="button"
+                  className="timeline-label timeline-year"
+                  data-timeline-stop
+                  data-year={entry.year}
+                  aria-expanded={entry.expanded}
+                  onClick={() => toggleYear(entry.year)}
+                >
+                  <span className="timeline-year-number">{entry.year}</span>
+                  <span className="timeline-year-count">{t('work.resultCount', { count: entry.works.length })}</span>
+                </button>
+                <span className="timeline-axis">
+                  <TimelineMark kind="year" />
+                </span>
+                {!entry.expanded && <TimelineWorks works={entry.works} onSelect={onSelect} />}
+              </li>
+            );
+          }
+          const label =
+            entry.kind === 'month'
+              ? formatMonth(entry.month)
+              : t(entry.year === null ? 'work.timeline.noDate' : 'work.timeline.noMonth');
+          return (
+            <li
+              key={entry.kind === 'month' ? `month-${entry.year}-${entry.month}` : `undated-${entry.year ?? 'none'}`}
+              className={`timeline-entry ${entry.kind}`}
+            >
+              <span className="timeline-label">{label}</span>
+              <span className="timeline-axis">
+                <TimelineMark kind={entry.kind} />
+              </span>
+              <TimelineWorks works={entry.works} onSelect={onSelect} />
+            </li>
+          );
+        })}
+      </ol>
     </div>
   );
 }
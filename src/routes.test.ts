@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { matchRoutes } from 'react-router-dom';
+import { siteRoutes, type RouteElements } from './routes';
+
+const elements: RouteElements = {
+  language: 'language',
+  home: 'home',
+  artist: 'artist',
+  work: 'work',
+  agenda: 'agenda',
+  workshop: 'workshop',
+  commission: 'commission',
+  admin: 'admin',
+  fallback: 'fallback',
+};
+
+// The elements of the matched routes, outermost first, and the params of the innermost one
+const resolve = (pathname: string, routes = siteRoutes(elements)) => {
+  const matches = matchRoutes(routes, pathname) ?? [];
+  return { elements: matches.map((m) => m.route.element), params: matches[matches.length - 1]?.params ?? {} };
+};
+
+describe('siteRoutes', () => {
+  it('routes the pages of every language', () => {
+    expect(resolve('/ca').elements).toEqual(['language', 'home']);
+    expect(resolve('/en/artista').elements).toEqual(['language', 'artist']);
+    expect(resolve('/es/encarrec').elements).toEqual(['language', 'commission']);
+  });
+
+  it('reads the work and image of L\'Obra URLs', () => {
+    const { elements, params } = resolve('/ca/obra/lleo/2');
+    expect(elements).toEqual(['language', 'work']);
+    expect(params).toMatchObject({ slug: 'lleo', image: '2' });
+  });
+
+  it('sends the admin work editor to the admin, not to a language', () => {
+    expect(resolve('/admin/obra/lleo').elements).toEqual(['admin']);
+    expect(resolve('/admin').elements).toEqual(['admin']);
+  });
+
+  it('leaves unprefixed and unknown paths to the fallback', () => {
+    expect(resolve('/obra/lleo').elements).toEqual(['fallback']);
+    expect(resolve('/fr/obra').elements).toEqual(['fallback']);
+    expect(resolve('/ca/unknown').elements).toEqual(['fallback']);
+  });
+
+  it('has no admin route without an admin', () => {
+    expect(resolve('/admin/obra/lleo', siteRoutes({ ...elements, admin: undefined })).elements).toEqual(['fallback']);
+  });
+});
@@ -0,0 +1,43 @@
+import type { ReactNode } from 'react';
+import type { RouteObject } from 'react-router-dom';
+import { LANGUAGES, LANGUAGE_INFO } from './i18n/languages';
+
+/** What each route renders: App passes the pages, the routing tests plain markers. */
+export type RouteElements = {
+  /** Layout of a language prefix, rendering the page below it */
+  language: ReactNode;
+  home: ReactNode;
+  artist: ReactNode;
+  work: ReactNode;
+  agenda: ReactNode;
+  workshop: ReactNode;
+  commission: ReactNode;
+  /** Dev-only content admin; left out of production builds */
+  admin?: ReactNode;
+  /** Unprefixed and unknown URLs */
+  fallback: ReactNode;
+};
+
+/**
+ * The site's route table. Every language gets its own literal prefix (/ca,
+ * /en, /es) rather than a `/:lang` segment, so other top-level paths such as
+ * /admin/obra/lleo are never taken for a page in a language called "admin".
+ */
+export function siteRoutes(elements: RouteElements): RouteObject[] {
+  return [
+    ...LANGUAGES.map((language) => ({
+      path: `/${LANGUAGE_INFO[language].locale}`,
+      element: elements.language,
+      children: [
+        { index: true, element: elements.home },
+        { path: 'artista', element: elements.artist },
+        { path: 'obra/:slug?/:image?', element: elements.work },
+        { path: 'agenda', element: elements.agenda },
+        { path: 'taller', element: elements.workshop },
+        { path: 'encarrec', element: elements.commission },
+      ],
+    })),
+    ...(elements.admin ? [{ path: '/admin/*', element: elements.admin }] : []),
+    { path: '*', element: elements.fallback },
+  ];
+}
@@ -0,0 +1,85 @@
+import React, { useContext, useEffect, useMemo, useState } from 'react';
+
+export const THEME_MODES = ['light', 'dark', 'system'] as const;
+
+/** The visitor's choice; `system` follows the colour scheme of the device. */
+export type ThemeMode = (typeof THEME_MODES)[number];
+
+export type Theme = 'light' | 'dark';
+
+// Also read by the inline script of index.html, which applies the theme before the first paint
+const STORAGE_KEY = 'pau-reig-theme';
+const DARK_QUERY = '(prefers-color-scheme: dark)';
+
+const isThemeMode = (value: unknown): value is ThemeMode => THEME_MODES.includes(value as ThemeMode);
+
+function storedMode(): ThemeMode {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (isThemeMode(stored)) return stored;
+  } catch {}
+  return 'system';
+}
+
+function storeMode(mode: ThemeMode) {
+  try {
+    if (mode === 'system') localStorage.removeItem(STORAGE_KEY);
+    else localStorage.setItem(STORAGE_KEY, mode);
+  } catch {}
+}
+
+const ThemeContext = React.createContext<{ mode: ThemeMode; theme: Theme; setMode: (mode: ThemeMode) => void }>({
+  mode: 'system',
+  theme: 'light',
+  setMode: () => {},
+});
+
+/**
+ * Applies the chosen theme as `data-theme` on `<html>`, where the design
+ * tokens of styles.css pick it up. Starts as `system` so prerendered markup
+ * doesn't depend on the visitor; the stored choice is read once mounted, and
+ * until then the theme set by the inline script of index.html is left alone.
+ */
+export function ThemeProvider({ children }: { children: React.ReactNode }) {
+  const [mode, setModeState] = useState<ThemeMode>('system');
+  // null until the device's scheme has been read on the client
+  const [systemDark, setSystemDark] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    setModeState(storedMode());
+    const query = window.matchMedia(DARK_QUERY);
+    const update = () => setSystemDark(query.matches);
+    update();
+    query.addEventListener('change', update);
+    return () => query.removeEventListener('change', update);
+  }, []);
+
+  const theme: Theme = mode === 'system' ? (systemDark ? 'dark' : 'light') : mode;
+
+  useEffect(() => {
+    if (systemDark === null) return;
+    document.documentElement.dataset.theme = theme;
+    // Browser chrome (address bar, status bar) follows the page background
+    document.querySelector('meta[name="theme-color"]')?.setAttribute(
+      'content',
+      getComputedStyle(document.documentElement).getPropertyValue('--bg').trim() || '#ffffff'
+    );
+  }, [theme, systemDark]);
+
+  const value = useMemo(
+    () => ({
+      mode,
+      theme,
+      setMode: (next: ThemeMode) => {
+        storeMode(next);
+        setModeState(next);
+      },
+    }),
+    [mode, theme]
+  );
+
+  return <ThemeContext.Provider value={value}>{children}</ThemeContext.Provider>;
+}
+
+/** The chosen mode, the theme it resolves to and a setter that remembers the choice. */
+export const useTheme = () => useContext(ThemeContext);
@@ -0,0 +1,14 @@
+declare module 'virtual:work-locations' {
+  /** Map position per work slug, resolved at build time by plugins/geocodeWorks.ts */
+  const locations: Record<string, import('./content/workMeta').WorkLocation>;
+  export default locations;
+}
+
+declare module 'virtual:event-locations' {
+  /** Map position per agenda event id, resolved at build time by plugins/geocodeWorks.ts */
+  const locations: Record<string, import('./content/workMeta').WorkLocation>;
+  export default locations;
+}
+
+/** `YYYY-MM-DD` of the build, set in vite.config.ts */
+declare const __BUILD_DATE__: string;
@@ -1,7 +1,16 @@
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
+import validateWorks from './plugins/validateWorks';
+import responsiveImages from './plugins/responsiveImages';
+import geocodeWorks from './plugins/geocodeWorks';
+import prerender from './plugins/prerender';
+import contentAdmin from './plugins/contentAdmin';
+import devApi from './plugins/devApi';
 
 export default defineConfig({
-  plugins: [react()],
+  define: {
+    // Day the agenda is split on in prerendered pages and on hydration; see useAgendaToday()
+    __BUILD_DATE__: JSON.stringify(process.env.BUILD_DATE ?? new Date().toISOString().slice(0, 10)),
+  },
+  plugins: [react(), validateWorks(), responsiveImages(), geocodeWorks(), prerender(), contentAdmin(), devApi()],
 });
-
@@ -0,0 +1,8 @@
+import { defineConfig } from 'vitest/config';
+
+// The unit tests cover the pure content modules, so none of the site's Vite plugins are loaded
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+  },
+});